@@ -1,14 +1,38 @@
+import {EventEmitter} from "node:events";
+import type {Comparison} from "@softwareventures/ordered";
+import {compare, reverse} from "@softwareventures/ordered";
 import test from "ava";
+import type {
+    EventTargetLike,
+    OverflowPolicy,
+    Page,
+    ReadableStreamLike,
+    RetryOptions,
+    Scheduler
+} from "./index";
 import {
     all,
     and,
     any,
     append,
     asyncIterable,
+    audit,
     average,
+    buffer,
+    bufferTime,
+    cache,
+    catchError,
+    chunk,
     concat,
     concatMap,
     contains,
+    createChannel,
+    CsvParseError,
+    cycle,
+    cycleFn,
+    debounce,
+    decodeText,
+    decodeTextFn,
     drop,
     dropWhile,
     empty,
@@ -17,49 +41,247 @@ import {
     excludeFirst,
     excludeNull,
     filter,
+    filterFn,
     find,
     findIndex,
+    first,
+    flow,
     fold,
     fold1,
+    foldFn,
+    fromEventEmitter,
+    fromEventTarget,
     index,
     indexOf,
     initial,
+    iterate,
+    JsonParseError,
     keyBy,
+    keyByFn,
     keyFirstBy,
     keyLastBy,
+    largest,
+    largestFn,
     last,
     map,
+    mapConcurrent,
+    mapFn,
     mapKeyBy,
     mapKeyFirstBy,
     mapKeyLastBy,
     maximum,
     maximumBy,
+    merge,
+    mergeMap,
     minimum,
     minimumBy,
     noneNull,
     notEmpty,
+    onErrorResume,
     only,
     or,
+    OverflowError,
+    paginate,
     pairwise,
+    parseCsv,
+    parseCsvFn,
+    parseJsonArray,
+    parseJsonArrayFn,
+    parseNdjson,
+    parseNdjsonFn,
+    pipe,
     prefixMatch,
     prepend,
     product,
     push,
+    race,
+    range,
+    realTimeScheduler,
     remove,
     removeFirst,
+    repeat,
+    retry,
+    sample,
     scan,
     scan1,
+    seq,
+    share,
     slice,
+    smallest,
+    smallestFn,
+    sort,
+    sortBy,
+    sortByFn,
+    sortFn,
+    splitLines,
+    splitLinesFn,
+    splitOn,
+    splitOnFn,
     sum,
     tail,
     take,
+    takeFn,
     takeWhile,
+    takeWhileFn,
+    tee,
+    throttle,
+    timeout,
+    TimeoutError,
+    timeoutWith,
     toArray,
+    toCsv,
+    toCsvFn,
+    toNdjson,
+    toNdjsonFn,
+    unfold,
     unshift,
+    VirtualScheduler,
+    windowed,
+    withSignal,
     zip,
     zipStrict
 } from "./index";
 
+async function delay(ms: number): Promise<void> {
+    return new Promise(resolve => {
+        setTimeout(resolve, ms);
+    });
+}
+
+async function* delayed<T>(
+    ms: number,
+    values: readonly T[],
+    scheduler: Scheduler
+): AsyncIterable<T> {
+    for (const value of values) {
+        await scheduler.sleep(ms);
+        yield value;
+    }
+}
+
+async function* timed<T>(
+    entries: ReadonlyArray<readonly [ms: number, value: T]>,
+    scheduler: Scheduler
+): AsyncIterable<T> {
+    for (const [ms, value] of entries) {
+        await scheduler.sleep(ms);
+        yield value;
+    }
+}
+
+async function record<T>(
+    iterable: AsyncIterable<T>,
+    scheduler: VirtualScheduler
+): Promise<Array<readonly [time: number, value: T]>> {
+    const emitted: Array<readonly [time: number, value: T]> = [];
+    const consume = async (): Promise<void> => {
+        for await (const value of iterable) {
+            emitted.push([scheduler.now(), value]);
+        }
+    };
+    await Promise.all([consume(), scheduler.run()]);
+    return emitted;
+}
+
+async function runVirtual<T>(scheduler: VirtualScheduler, promise: Promise<T>): Promise<T> {
+    const [result] = await Promise.all([promise, scheduler.run()]);
+    return result;
+}
+
+class Tracked<T> implements AsyncIterable<T> {
+    public returned = 0;
+    public done = false;
+
+    public constructor(private readonly values: readonly T[]) {}
+
+    public get closed(): boolean {
+        return this.done || this.returned > 0;
+    }
+
+    public [Symbol.asyncIterator](): AsyncIterator<T> {
+        let index = 0;
+        return {
+            next: async () => {
+                if (this.done || index >= this.values.length) {
+                    this.done = true;
+                    return {done: true, value: undefined};
+                }
+                return {done: false, value: this.values[index++] as T};
+            },
+            return: async () => {
+                ++this.returned;
+                this.done = true;
+                return {done: true, value: undefined};
+            }
+        };
+    }
+}
+
+class Stalled<T> implements AsyncIterable<T> {
+    public returned = 0;
+
+    public constructor(private readonly values: readonly T[]) {}
+
+    public [Symbol.asyncIterator](): AsyncIterator<T> {
+        let index = 0;
+        let release = (): void => undefined;
+        return {
+            next: async () => {
+                if (index < this.values.length) {
+                    return {done: false, value: this.values[index++] as T};
+                }
+                return new Promise(resolve => {
+                    release = () => {
+                        resolve({done: true, value: undefined});
+                    };
+                });
+            },
+            return: async () => {
+                ++this.returned;
+                release();
+                return {done: true, value: undefined};
+            }
+        };
+    }
+}
+
+test("ReadableStreamLike", async t => {
+    const stream = (values: readonly number[], calls: string[]): ReadableStreamLike<number> => ({
+        getReader: () => {
+            let index = 0;
+            return {
+                read: async () =>
+                    index < values.length
+                        ? {done: false, value: values[index++]}
+                        : {done: true, value: undefined},
+                releaseLock: () => {
+                    calls.push("releaseLock");
+                },
+                cancel: async () => {
+                    calls.push("cancel");
+                }
+            };
+        }
+    });
+
+    const completed: string[] = [];
+    t.deepEqual(await toArray(map(stream([1, 2, 3], completed), e => e * 2)), [2, 4, 6]);
+    t.deepEqual(completed, ["releaseLock"]);
+
+    const exited: string[] = [];
+    t.deepEqual(await toArray(take(stream([1, 2, 3], exited), 2)), [1, 2]);
+    t.deepEqual(exited, ["cancel", "releaseLock"]);
+
+    t.deepEqual(await toArray(Promise.resolve(stream([4], []))), [4]);
+});
+
+test("string input", async t => {
+    t.deepEqual(await toArray("abc"), ["a", "b", "c"]);
+    t.deepEqual(await toArray(asyncIterable("abc")), ["a", "b", "c"]);
+    t.deepEqual(await toArray(Promise.resolve("ab")), ["a", "b"]);
+    t.deepEqual(await toArray(concat(["ab", "cd"])), ["a", "b", "c", "d"]);
+});
+
 test("tail", async t => {
     t.deepEqual(await toArray(tail(asyncIterable([1, 2, 3, 4]))), [2, 3, 4]);
     t.deepEqual(await toArray(tail(asyncIterable([1]))), []);
@@ -120,6 +342,10 @@ test("take", async t => {
     t.deepEqual(await toArray(take(asyncIterable([1, 2]), 3)), [1, 2]);
     t.deepEqual(await toArray(take(asyncIterable([1, 2, 3, 4, 5]), 3)), [1, 2, 3]);
     t.deepEqual(await toArray(take(asyncIterable([1, 2, 3, 4, 5]), 0)), []);
+
+    const tracked = new Tracked([1, 2, 3]);
+    t.deepEqual(await toArray(take(tracked, 0)), []);
+    t.is(tracked.returned, 1);
 });
 
 test("drop", async t => {
@@ -193,6 +419,92 @@ test("map", async t => {
     );
 });
 
+test("mapConcurrent", async t => {
+    const delays = [30, 10, 20, 0];
+    let active = 0;
+    let maxActive = 0;
+    const sleeping =
+        (scheduler: Scheduler) =>
+        async (e: number, i: number): Promise<number> => {
+            maxActive = Math.max(maxActive, ++active);
+            await scheduler.sleep(delays[i] ?? 0);
+            --active;
+            return e * 10;
+        };
+
+    const ordered = new VirtualScheduler();
+    t.deepEqual(
+        await record(
+            mapConcurrent(asyncIterable([1, 2, 3, 4]), sleeping(ordered), {concurrency: 2}),
+            ordered
+        ),
+        [
+            [30, 10],
+            [30, 20],
+            [50, 30],
+            [50, 40]
+        ]
+    );
+    t.is(maxActive, 2);
+
+    maxActive = 0;
+    const unordered = new VirtualScheduler();
+    t.deepEqual(
+        await record(
+            mapConcurrent(asyncIterable([1, 2, 3, 4]), sleeping(unordered), {
+                concurrency: 4,
+                ordered: false
+            }),
+            unordered
+        ),
+        [
+            [0, 40],
+            [10, 20],
+            [20, 30],
+            [30, 10]
+        ]
+    );
+    t.is(maxActive, 4);
+
+    const f = sleeping(new VirtualScheduler());
+    t.deepEqual(await toArray(mapConcurrent(asyncIterable([]), f, {concurrency: 2})), []);
+
+    await t.throwsAsync(
+        toArray(
+            mapConcurrent(
+                asyncIterable([1, 2, 3]),
+                e => {
+                    if (e === 2) {
+                        throw new Error("mapConcurrent");
+                    }
+                    return e;
+                },
+                {concurrency: 2}
+            )
+        ),
+        {message: "mapConcurrent"}
+    );
+
+    await t.throwsAsync(toArray(mapConcurrent(asyncIterable([1]), f, {concurrency: 0})), {
+        instanceOf: RangeError
+    });
+});
+
+test("mapConcurrent with an idle source", async t => {
+    const channel = createChannel<number>({capacity: 1});
+    await channel.push(1);
+    const iterator = mapConcurrent(channel.iterable, e => e * 10, {concurrency: 4})[
+        Symbol.asyncIterator
+    ]();
+    t.deepEqual(await iterator.next(), {done: false, value: 10});
+
+    const next = iterator.next();
+    await channel.push(2);
+    t.deepEqual(await next, {done: false, value: 20});
+    channel.close();
+    t.deepEqual(await iterator.next(), {done: true, value: undefined});
+});
+
 test("filter", async t => {
     t.deepEqual(await toArray(filter(asyncIterable([1, 2, 3]), e => e % 2 === 1)), [1, 3]);
     t.deepEqual(
@@ -376,6 +688,687 @@ test("concatMap", async t => {
     ]);
 });
 
+test("mergeMap", async t => {
+    const scheduler = new VirtualScheduler();
+    t.deepEqual(
+        await record(
+            mergeMap(asyncIterable([50, 30]), ms =>
+                delayed(ms, [`${ms}a`, `${ms}b`, `${ms}c`], scheduler)
+            ),
+            scheduler
+        ),
+        [
+            [30, "30a"],
+            [50, "50a"],
+            [60, "30b"],
+            [90, "30c"],
+            [100, "50b"],
+            [150, "50c"]
+        ]
+    );
+
+    const serial = new VirtualScheduler();
+    t.deepEqual(
+        await record(
+            mergeMap(asyncIterable([20, 10]), ms => delayed(ms, [`${ms}a`, `${ms}b`], serial), {
+                concurrency: 1
+            }),
+            serial
+        ),
+        [
+            [20, "20a"],
+            [40, "20b"],
+            [50, "10a"],
+            [60, "10b"]
+        ]
+    );
+    t.deepEqual(await toArray(mergeMap(asyncIterable([]), () => [1])), []);
+
+    const infiniteScheduler = new VirtualScheduler();
+    let closed = 0;
+    async function* infinite(): AsyncIterable<number> {
+        try {
+            for (let i = 0; ; ++i) {
+                await infiniteScheduler.sleep(1);
+                yield i;
+            }
+        } finally {
+            ++closed;
+        }
+    }
+
+    t.is(
+        (await record(take(mergeMap(asyncIterable([1, 2]), infinite), 3), infiniteScheduler))
+            .length,
+        3
+    );
+    t.is(closed, 2);
+
+    const failingScheduler = new VirtualScheduler();
+    await t.throwsAsync(
+        runVirtual(
+            failingScheduler,
+            toArray(
+                mergeMap(asyncIterable([1, 2]), async function* (e) {
+                    await failingScheduler.sleep(e);
+                    if (e === 1) {
+                        throw new Error("mergeMap");
+                    }
+                    yield e;
+                })
+            )
+        ),
+        {message: "mergeMap"}
+    );
+});
+
+test("merge", async t => {
+    const failing = async (ms: number, scheduler: Scheduler): Promise<never> => {
+        await scheduler.sleep(ms);
+        throw new Error("merge");
+    };
+
+    const scheduler = new VirtualScheduler();
+    t.deepEqual(
+        await record(
+            merge([
+                delayed(75, ["a", "b"], scheduler),
+                delayed(30, ["c", "d", "e", "f"], scheduler),
+                []
+            ]),
+            scheduler
+        ),
+        [
+            [30, "c"],
+            [60, "d"],
+            [75, "a"],
+            [90, "e"],
+            [120, "f"],
+            [150, "b"]
+        ]
+    );
+
+    const nested = new VirtualScheduler();
+    t.deepEqual(
+        await record(
+            merge(
+                delayed(
+                    20,
+                    [
+                        delayed(50, ["a", "b"], nested),
+                        delayed(10, ["c"], nested),
+                        asyncIterable(["d"])
+                    ],
+                    nested
+                )
+            ),
+            nested
+        ),
+        [
+            [50, "c"],
+            [60, "d"],
+            [70, "a"],
+            [120, "b"]
+        ]
+    );
+    t.deepEqual(await toArray(merge([])), []);
+
+    const failFast = new VirtualScheduler();
+    await t.throwsAsync(
+        runVirtual(
+            failFast,
+            toArray(merge<string>([delayed(50, ["a"], failFast), failing(5, failFast)]))
+        ),
+        {message: "merge"}
+    );
+
+    const failSlow = new VirtualScheduler();
+    const elements: Array<readonly [number, string]> = [];
+    await t.throwsAsync(
+        runVirtual(
+            failSlow,
+            (async () => {
+                for await (const element of merge<string>(
+                    [delayed(20, ["a", "b"], failSlow), failing(30, failSlow)],
+                    {failFast: false}
+                )) {
+                    elements.push([failSlow.now(), element]);
+                }
+            })()
+        ),
+        {message: "merge"}
+    );
+    t.deepEqual(elements, [
+        [20, "a"],
+        [40, "b"]
+    ]);
+});
+
+test("race", async t => {
+    const scheduler = new VirtualScheduler();
+    t.deepEqual(
+        await record(
+            race([delayed(50, ["a", "b"], scheduler), delayed(10, ["c", "d", "e"], scheduler)]),
+            scheduler
+        ),
+        [
+            [10, "c"],
+            [20, "d"],
+            [30, "e"]
+        ]
+    );
+    t.deepEqual(await toArray(race([])), []);
+});
+
+test("tee", async t => {
+    let pulled = 0;
+    const [a, b] = tee(
+        map(asyncIterable([1, 2, 3]), e => {
+            ++pulled;
+            return e;
+        }),
+        2
+    );
+    t.deepEqual(await toArray(a ?? []), [1, 2, 3]);
+    t.deepEqual(await toArray(b ?? []), [1, 2, 3]);
+    t.is(pulled, 3);
+
+    const [c, d] = tee(asyncIterable([1, 2, 3]), 2, {policy: "drop", bufferSize: 1});
+    t.deepEqual(await toArray(c ?? []), [1, 2, 3]);
+    t.deepEqual(await toArray(d ?? []), [1]);
+
+    const [fast, slow] = tee(asyncIterable([1, 2, 3]), 2, {
+        policy: "backpressure",
+        bufferSize: 1
+    }).map(iterable => iterable[Symbol.asyncIterator]());
+    t.deepEqual(await fast?.next(), {done: false, value: 1});
+    let resolved = false;
+    const next = fast?.next().then(result => {
+        resolved = true;
+        return result;
+    });
+    await delay(10);
+    t.false(resolved);
+    t.deepEqual(await slow?.next(), {done: false, value: 1});
+    t.deepEqual(await next, {done: false, value: 2});
+
+    const [read, unread] = tee(asyncIterable([1, 2, 3]), 2, {
+        policy: "backpressure",
+        bufferSize: 1
+    });
+    await unread?.[Symbol.asyncIterator]().return?.();
+    t.deepEqual(await toArray(read ?? []), [1, 2, 3]);
+
+    for (const iterable of tee(failing(), 2)) {
+        await t.throwsAsync(toArray(iterable), {message: "failing"});
+    }
+
+    const tracked = new Tracked([1, 2, 3]);
+    const iterators = tee(tracked, 2).map(iterable => iterable[Symbol.asyncIterator]());
+    for (const iterator of iterators) {
+        await iterator.next();
+    }
+    await iterators[0]?.return?.();
+    t.is(tracked.returned, 0);
+    await iterators[1]?.return?.();
+    t.is(tracked.returned, 1);
+
+    t.throws(() => tee([], 1.5), {instanceOf: RangeError});
+    t.throws(() => tee([], 2, {bufferSize: 0}), {instanceOf: RangeError});
+});
+
+test("share", async t => {
+    const tracked = new Tracked([1, 2, 3, 4]);
+    const shared = share(tracked);
+    const first = shared[Symbol.asyncIterator]();
+    t.deepEqual(await first.next(), {done: false, value: 1});
+    const second = shared[Symbol.asyncIterator]();
+    t.deepEqual(await second.next(), {done: false, value: 2});
+    t.deepEqual(await first.next(), {done: false, value: 2});
+    t.deepEqual(await first.next(), {done: false, value: 3});
+    await first.return?.();
+    t.is(tracked.returned, 0);
+    t.deepEqual(await second.next(), {done: false, value: 3});
+    await second.return?.();
+    t.is(tracked.returned, 1);
+
+    t.deepEqual(await toArray(share(asyncIterable([1, 2, 3]))), [1, 2, 3]);
+
+    const unread = new Tracked([1, 2, 3]);
+    const sharedUnread = share(unread);
+    const reader = sharedUnread[Symbol.asyncIterator]();
+    t.deepEqual(await reader.next(), {done: false, value: 1});
+    const idle = sharedUnread[Symbol.asyncIterator]();
+    await reader.return?.();
+    t.is(unread.returned, 0);
+    await idle.return?.();
+    t.is(unread.returned, 1);
+});
+
+test("cache", async t => {
+    let pulled = 0;
+    const cached = cache(
+        map(asyncIterable([1, 2, 3]), e => {
+            ++pulled;
+            return e;
+        })
+    );
+    t.deepEqual(await toArray(take(cached, 1)), [1]);
+    t.is(pulled, 1);
+    t.deepEqual(await Promise.all([toArray(cached), toArray(cached)]), [
+        [1, 2, 3],
+        [1, 2, 3]
+    ]);
+    t.deepEqual(await toArray(cached), [1, 2, 3]);
+    t.is(pulled, 3);
+
+    const windowed = cache([1, 2, 3], {maxSize: 2});
+    t.deepEqual(await toArray(windowed), [1, 2, 3]);
+    t.deepEqual(await toArray(windowed), [1, 2, 3]);
+
+    const reads: number[] = [];
+    const bounded = cache(
+        () =>
+            map(asyncIterable([1, 2, 3, 4]), e => {
+                reads.push(e);
+                return e;
+            }),
+        {maxSize: 2}
+    );
+    t.deepEqual(await toArray(bounded), [1, 2, 3, 4]);
+    t.deepEqual(await toArray(bounded), [1, 2, 3, 4]);
+    t.deepEqual(await toArray(take(bounded, 1)), [1]);
+    t.deepEqual(reads, [1, 2, 3, 4, 1, 2, 1]);
+
+    const boundedOnce = cache(asyncIterable([1, 2, 3]), {maxSize: 2});
+    t.deepEqual(await toArray(boundedOnce), [1, 2, 3]);
+    await t.throwsAsync(toArray(boundedOnce), {message: "cache: element evicted"});
+
+    async function* generate(): AsyncIterable<number> {
+        yield* [1, 2, 3, 4, 5, 6];
+    }
+    const overlapping = cache(generate(), {maxSize: 2});
+    const ahead = overlapping[Symbol.asyncIterator]();
+    for (const value of [1, 2, 3]) {
+        t.deepEqual(await ahead.next(), {done: false, value});
+    }
+    const behind = overlapping[Symbol.asyncIterator]();
+    await t.throwsAsync(behind.next(), {message: "cache: element evicted"});
+    t.deepEqual(await ahead.next(), {done: false, value: 4});
+    t.deepEqual(await toArray({[Symbol.asyncIterator]: () => ahead}), [5, 6]);
+
+    const failed = cache(failing());
+    await t.throwsAsync(toArray(failed), {message: "failing"});
+    await t.throwsAsync(toArray(failed), {message: "failing"});
+
+    const tracked = new Tracked([1, 2, 3]);
+    const disposable = cache(tracked);
+    t.deepEqual(await toArray(take(disposable, 1)), [1]);
+    t.is(tracked.returned, 0);
+    await disposable.dispose();
+    t.is(tracked.returned, 1);
+    await t.throwsAsync(toArray(disposable), {message: "cache: disposed"});
+
+    t.throws(() => cache([], {maxSize: 0}), {instanceOf: RangeError});
+});
+
+test("timeout", async t => {
+    const scheduler = new VirtualScheduler();
+    t.deepEqual(
+        await record(timeout(delayed(5, [1, 2, 3], scheduler), {each: 100, scheduler}), scheduler),
+        [
+            [5, 1],
+            [10, 2],
+            [15, 3]
+        ]
+    );
+    t.deepEqual(
+        await toArray(timeout([1, 2, 3], {total: 100, scheduler: new VirtualScheduler()})),
+        [1, 2, 3]
+    );
+
+    const stalled = new VirtualScheduler();
+    let closed = false;
+    async function* stalling(): AsyncIterable<number> {
+        try {
+            yield 1;
+            yield 2;
+            await stalled.sleep(100);
+            yield 3;
+        } finally {
+            closed = true;
+        }
+    }
+
+    const elements: number[] = [];
+    const timedOut: number[] = [];
+    await Promise.all([
+        t.throwsAsync(
+            async () => {
+                try {
+                    for await (const element of timeout(stalling(), {
+                        each: 20,
+                        scheduler: stalled
+                    })) {
+                        elements.push(element);
+                    }
+                } finally {
+                    timedOut.push(stalled.now());
+                }
+            },
+            {instanceOf: TimeoutError}
+        ),
+        stalled.run()
+    ]);
+    t.deepEqual(elements, [1, 2]);
+    t.deepEqual(timedOut, [20]);
+    t.true(closed);
+
+    const hung = new Stalled([1, 2]);
+    const hungScheduler = new VirtualScheduler();
+    await t.throwsAsync(
+        runVirtual(hungScheduler, toArray(timeout(hung, {each: 20, scheduler: hungScheduler}))),
+        {instanceOf: TimeoutError}
+    );
+    t.is(hung.returned, 1);
+
+    const total = new VirtualScheduler();
+    await t.throwsAsync(
+        runVirtual(
+            total,
+            toArray(
+                timeout(delayed(20, [1, 2, 3, 4, 5], total), {
+                    each: 50,
+                    total: 50,
+                    scheduler: total
+                })
+            )
+        ),
+        {instanceOf: TimeoutError}
+    );
+});
+
+test("timeoutWith", async t => {
+    const scheduler = new VirtualScheduler();
+    t.deepEqual(
+        await record(
+            timeoutWith(delayed(5, [1, 2], scheduler), [3, 4], {each: 100, scheduler}),
+            scheduler
+        ),
+        [
+            [5, 1],
+            [10, 2]
+        ]
+    );
+
+    const total = new VirtualScheduler();
+    t.deepEqual(
+        await record(
+            timeoutWith(delayed(30, [1, 2, 3, 4, 5], total), [6, 7], {
+                total: 100,
+                scheduler: total
+            }),
+            total
+        ),
+        [
+            [30, 1],
+            [60, 2],
+            [90, 3],
+            [100, 6],
+            [100, 7]
+        ]
+    );
+});
+
+async function* failing(): AsyncIterable<number> {
+    yield 1;
+    yield 2;
+    throw new Error("failing");
+}
+
+test("catchError", async t => {
+    const reasons: unknown[] = [];
+    t.deepEqual(
+        await toArray(
+            catchError(failing(), reason => {
+                reasons.push(reason);
+                return [3, 4];
+            })
+        ),
+        [1, 2, 3, 4]
+    );
+    t.is(reasons.length, 1);
+    t.true(reasons[0] instanceof Error);
+    t.deepEqual(await toArray(catchError([1, 2], () => [3])), [1, 2]);
+    await t.throwsAsync(
+        toArray(
+            catchError(failing(), reason => {
+                throw reason;
+            })
+        ),
+        {message: "failing"}
+    );
+});
+
+test("onErrorResume", async t => {
+    t.deepEqual(await toArray(onErrorResume([failing(), [5], failing()])), [1, 2, 5, 1, 2]);
+    t.deepEqual(await toArray(onErrorResume([])), []);
+});
+
+test("retry", async t => {
+    const starts: number[] = [];
+    const run = async (
+        options: RetryOptions
+    ): Promise<Array<readonly [time: number, value: number]>> => {
+        const scheduler = new VirtualScheduler();
+        async function* source(attempt: number): AsyncIterable<number> {
+            starts.push(scheduler.now());
+            yield 1;
+            yield 2;
+            if (attempt < 3) {
+                throw new Error("retry");
+            }
+            yield 3;
+        }
+        return record(retry(source, {...options, scheduler}), scheduler);
+    };
+
+    t.deepEqual(await run({backoff: attempt => attempt * 10}), [
+        [0, 1],
+        [0, 2],
+        [10, 1],
+        [10, 2],
+        [30, 1],
+        [30, 2],
+        [30, 3]
+    ]);
+    t.deepEqual(starts, [0, 10, 30]);
+    t.deepEqual(await run({backoff: 10, skipYielded: true}), [
+        [0, 1],
+        [0, 2],
+        [20, 3]
+    ]);
+    await t.throwsAsync(run({attempts: 2}), {message: "retry"});
+    t.deepEqual(starts, [0, 10, 30, 0, 10, 20, 0, 0]);
+
+    await t.throwsAsync(run({shouldRetry: () => false}), {message: "retry"});
+    t.is(starts.length, 9);
+
+    await t.throwsAsync(run({attempts: 0}), {instanceOf: RangeError});
+    await t.throwsAsync(run({jitter: 2}), {instanceOf: RangeError});
+
+    const scheduler = new VirtualScheduler();
+    const controller = new AbortController();
+    const result = toArray(retry(failing, {backoff: 1000, scheduler, signal: controller.signal}));
+    await scheduler.advance(10);
+    controller.abort();
+    await t.throwsAsync(result, {any: true, name: "AbortError"});
+});
+
+const playback = async <T, U>(
+    entries: ReadonlyArray<readonly [ms: number, value: T]>,
+    f: (iterable: AsyncIterable<T>, scheduler: Scheduler) => AsyncIterable<U>
+): Promise<Array<readonly [number, U]>> => {
+    const scheduler = new VirtualScheduler();
+    return record(f(timed(entries, scheduler), scheduler), scheduler);
+};
+
+const bursts: ReadonlyArray<readonly [number, number]> = [
+    [0, 1],
+    [10, 2],
+    [10, 3],
+    [60, 4],
+    [10, 5]
+];
+
+test("debounce", async t => {
+    t.deepEqual(
+        await playback(bursts, (iterable, scheduler) => debounce(iterable, 30, {scheduler})),
+        [
+            [50, 3],
+            [90, 5]
+        ]
+    );
+    t.deepEqual(await toArray(debounce(asyncIterable([]), 30)), []);
+});
+
+test("throttle", async t => {
+    const source: ReadonlyArray<readonly [number, number]> = [
+        [0, 1],
+        [10, 2],
+        [10, 3],
+        [130, 4],
+        [10, 5]
+    ];
+
+    t.deepEqual(
+        await playback(source, (iterable, scheduler) => throttle(iterable, 100, {scheduler})),
+        [
+            [0, 1],
+            [150, 4]
+        ]
+    );
+    t.deepEqual(
+        await playback(source, (iterable, scheduler) =>
+            throttle(iterable, 100, {trailing: true, scheduler})
+        ),
+        [
+            [0, 1],
+            [100, 3],
+            [160, 5]
+        ]
+    );
+    t.deepEqual(
+        await playback(source, (iterable, scheduler) =>
+            throttle(iterable, 100, {leading: false, trailing: true, scheduler})
+        ),
+        [
+            [100, 3],
+            [160, 5]
+        ]
+    );
+});
+
+test("sample", async t => {
+    const source: ReadonlyArray<readonly [number, number]> = [
+        [0, 1],
+        [10, 2],
+        [10, 3],
+        [60, 4],
+        [40, 5]
+    ];
+
+    t.deepEqual(
+        await playback(source, (iterable, scheduler) => sample(iterable, 50, {scheduler})),
+        [
+            [50, 3],
+            [100, 4],
+            [120, 5]
+        ]
+    );
+});
+
+test("audit", async t => {
+    const source: ReadonlyArray<readonly [number, number]> = [
+        [0, 1],
+        [10, 2],
+        [10, 3],
+        [60, 4],
+        [10, 5],
+        [70, 6]
+    ];
+
+    t.deepEqual(await playback(source, (iterable, scheduler) => audit(iterable, 50, {scheduler})), [
+        [50, 3],
+        [130, 5],
+        [160, 6]
+    ]);
+});
+
+test("VirtualScheduler", async t => {
+    const scheduler = new VirtualScheduler();
+    const log: string[] = [];
+    void scheduler.sleep(20).then(() => log.push("b"));
+    void scheduler.sleep(10).then(() => log.push("a"));
+
+    await scheduler.advance(5);
+    t.is(scheduler.now(), 5);
+    t.deepEqual(log, []);
+    await scheduler.advance(5);
+    t.deepEqual(log, ["a"]);
+    await scheduler.advanceTo(30);
+    t.is(scheduler.now(), 30);
+    t.deepEqual(log, ["a", "b"]);
+    await t.throwsAsync(scheduler.advanceTo(10), {instanceOf: RangeError});
+
+    const controller = new AbortController();
+    const aborted = scheduler.sleep(10, controller.signal);
+    controller.abort();
+    await t.throwsAsync(aborted, {any: true, name: "AbortError"});
+    await scheduler.run();
+    t.is(scheduler.now(), 30);
+});
+
+test("scheduler option", async t => {
+    const run = async <T>(
+        f: (iterable: AsyncIterable<number>, scheduler: Scheduler) => AsyncIterable<T>
+    ): Promise<Array<readonly [number, T]>> => playback(bursts, f);
+
+    t.deepEqual(await run((iterable, scheduler) => debounce(iterable, 30, {scheduler})), [
+        [50, 3],
+        [90, 5]
+    ]);
+    t.deepEqual(
+        await run((iterable, scheduler) => throttle(iterable, 50, {trailing: true, scheduler})),
+        [
+            [0, 1],
+            [50, 3],
+            [90, 5]
+        ]
+    );
+    t.deepEqual(await run((iterable, scheduler) => sample(iterable, 50, {scheduler})), [
+        [50, 3],
+        [90, 5]
+    ]);
+    t.deepEqual(await run((iterable, scheduler) => audit(iterable, 50, {scheduler})), [
+        [50, 3],
+        [90, 5]
+    ]);
+    t.deepEqual(await run((iterable, scheduler) => bufferTime(iterable, 25, {scheduler})), [
+        [25, [1, 2, 3]],
+        [90, [4, 5]]
+    ]);
+    t.deepEqual(
+        await run((iterable, scheduler) => timeoutWith(iterable, [9], {each: 30, scheduler})),
+        [
+            [0, 1],
+            [10, 2],
+            [20, 3],
+            [50, 9]
+        ]
+    );
+});
+
 test("noneNull", async t => {
     t.deepEqual(await noneNull(asyncIterable([1, 2, 3])), [1, 2, 3]);
     t.is(await noneNull(asyncIterable([1, null, 3])), null);
@@ -396,6 +1389,56 @@ test("scan1", async t => {
     t.deepEqual(await toArray(scan1(asyncIterable([1, 2, 3]), (a, e, i) => a + e * i)), [1, 3, 9]);
 });
 
+test("chunk", async t => {
+    t.deepEqual(await toArray(chunk(asyncIterable([1, 2, 3, 4, 5]), 2)), [[1, 2], [3, 4], [5]]);
+    t.deepEqual(await toArray(chunk(asyncIterable([1, 2, 3, 4]), 2)), [
+        [1, 2],
+        [3, 4]
+    ]);
+    t.deepEqual(await toArray(chunk(asyncIterable([]), 2)), []);
+    await t.throwsAsync(toArray(chunk(asyncIterable([1]), 0)), {instanceOf: RangeError});
+});
+
+test("bufferTime", async t => {
+    const source: ReadonlyArray<readonly [number, number]> = [
+        [0, 1],
+        [0, 2],
+        [80, 3],
+        [20, 4]
+    ];
+
+    t.deepEqual(
+        await playback(source, (iterable, scheduler) => bufferTime(iterable, 50, {scheduler})),
+        [
+            [50, [1, 2]],
+            [100, [3, 4]]
+        ]
+    );
+    t.deepEqual(await toArray(bufferTime(asyncIterable([]), 50)), []);
+});
+
+test("buffer", async t => {
+    const source: ReadonlyArray<readonly [number, number]> = [
+        [0, 1],
+        [0, 2],
+        [0, 3],
+        [80, 4]
+    ];
+
+    t.deepEqual(
+        await playback(source, (iterable, scheduler) =>
+            buffer(iterable, {maxCount: 2, maxMs: 50, scheduler})
+        ),
+        [
+            [0, [1, 2]],
+            [50, [3]],
+            [80, [4]]
+        ]
+    );
+    t.deepEqual(await toArray(buffer(asyncIterable([1, 2, 3, 4]), {maxCount: 10})), [[1, 2, 3, 4]]);
+    await t.throwsAsync(toArray(buffer(asyncIterable([1]), {maxMs: 0})), {instanceOf: RangeError});
+});
+
 test("pairwise", async t => {
     t.deepEqual(await toArray(pairwise(asyncIterable([]))), []);
     t.deepEqual(await toArray(pairwise(asyncIterable([1]))), []);
@@ -408,6 +1451,42 @@ test("pairwise", async t => {
     ]);
 });
 
+test("windowed", async t => {
+    t.deepEqual(await toArray(windowed(asyncIterable([1, 2, 3, 4, 5]), 3)), [
+        [1, 2, 3],
+        [2, 3, 4],
+        [3, 4, 5]
+    ]);
+    t.deepEqual(await toArray(windowed(asyncIterable([1, 2, 3, 4, 5]), 2, {step: 2})), [
+        [1, 2],
+        [3, 4]
+    ]);
+    t.deepEqual(
+        await toArray(windowed(asyncIterable([1, 2, 3, 4, 5]), 2, {step: 2, partial: true})),
+        [[1, 2], [3, 4], [5]]
+    );
+    t.deepEqual(
+        await toArray(windowed(asyncIterable([1, 2, 3, 4, 5]), 3, {step: 2, partial: true})),
+        [[1, 2, 3], [3, 4, 5], [5]]
+    );
+    t.deepEqual(await toArray(windowed(asyncIterable([1, 2, 3, 4]), 3, {partial: true})), [
+        [1, 2, 3],
+        [2, 3, 4],
+        [3, 4],
+        [4]
+    ]);
+    t.deepEqual(await toArray(windowed(asyncIterable([1, 2, 3, 4, 5, 6, 7]), 2, {step: 3})), [
+        [1, 2],
+        [4, 5]
+    ]);
+    t.deepEqual(await toArray(windowed(asyncIterable([1, 2]), 3)), []);
+    t.deepEqual(await toArray(windowed(asyncIterable([]), 3, {partial: true})), []);
+    await t.throwsAsync(toArray(windowed(asyncIterable([1]), 0)), {instanceOf: RangeError});
+    await t.throwsAsync(toArray(windowed(asyncIterable([1]), 1, {step: 0})), {
+        instanceOf: RangeError
+    });
+});
+
 test("zip", async t => {
     t.deepEqual(await toArray(zip(asyncIterable([1, 2, 3]), asyncIterable([6, 5, 4, 3, 2, 1]))), [
         [1, 6],
@@ -489,3 +1568,990 @@ test("mapKeyLastBy", async t => {
         ["even", "6"]
     ]);
 });
+
+test.serial("withSignal", async t => {
+    let closed = false;
+    async function* slow(): AsyncIterable<number> {
+        try {
+            yield 1;
+            await delay(50);
+            yield 2;
+        } finally {
+            closed = true;
+        }
+    }
+
+    const controller = new AbortController();
+    const elements: number[] = [];
+    const iteration = (async () => {
+        for await (const element of withSignal(slow(), controller.signal)) {
+            elements.push(element);
+        }
+    })();
+    await delay(10);
+    controller.abort();
+    await t.throwsAsync(iteration, {any: true, name: "AbortError"});
+    t.deepEqual(elements, [1]);
+    t.false(closed);
+    await delay(60);
+    t.true(closed);
+
+    t.deepEqual(await toArray(withSignal([1, 2, 3], new AbortController().signal)), [1, 2, 3]);
+
+    const stalled = new Stalled([1]);
+    const stalledController = new AbortController();
+    const stalledIterator = withSignal(stalled, stalledController.signal)[Symbol.asyncIterator]();
+    t.deepEqual(await stalledIterator.next(), {done: false, value: 1});
+    const pending = stalledIterator.next();
+    stalledController.abort();
+    await t.throwsAsync(pending, {any: true, name: "AbortError"});
+    t.is(stalled.returned, 1);
+});
+
+test.serial("signal option", async t => {
+    const aborted = new AbortController();
+    aborted.abort();
+    const {signal} = aborted;
+
+    await t.throwsAsync(toArray([1, 2, 3], {signal}), {any: true, name: "AbortError"});
+    await t.throwsAsync(
+        fold([1, 2, 3], (a, e) => a + e, 0, {signal}),
+        {any: true, name: "AbortError"}
+    );
+    await t.throwsAsync(
+        find([1, 2, 3], e => e === 2, {signal}),
+        {any: true, name: "AbortError"}
+    );
+    await t.throwsAsync(equal([1, 2, 3], [1, 2, 3], undefined, {signal}), {
+        any: true,
+        name: "AbortError"
+    });
+    await t.throwsAsync(maximum([1, 2, 3], undefined, {signal}), {any: true, name: "AbortError"});
+    await t.throwsAsync(toArray(map([1, 2, 3], String, {signal})), {any: true, name: "AbortError"});
+    await t.throwsAsync(toArray(zip([1, 2, 3], [3, 2, 1], {signal})), {
+        any: true,
+        name: "AbortError"
+    });
+    await t.throwsAsync(toArray(concat([[1], [2]], {signal})), {any: true, name: "AbortError"});
+    await t.throwsAsync(toArray(mergeMap([1, 2], e => [e], {signal})), {
+        any: true,
+        name: "AbortError"
+    });
+
+    const controller = new AbortController();
+    const start = Date.now();
+    setTimeout(() => {
+        controller.abort();
+    }, 10);
+    await t.throwsAsync(
+        toArray(
+            map(delayed(1000, [1, 2, 3], realTimeScheduler), e => e * 2, {
+                signal: controller.signal
+            })
+        ),
+        {any: true, name: "AbortError"}
+    );
+    t.true(Date.now() - start < 500);
+
+    const never = new AbortController();
+    t.deepEqual(await toArray(take([1, 2, 3], 2, {signal: never.signal})), [1, 2]);
+});
+
+test("closes iterators on early exit", async t => {
+    const cases: ReadonlyArray<
+        readonly [string, (iterable: AsyncIterable<number>) => Promise<unknown>]
+    > = [
+        ["first", first],
+        ["only", only],
+        ["empty", empty],
+        ["notEmpty", notEmpty],
+        ["equal", async iterable => equal(iterable, [1, 3])],
+        ["prefixMatch", async iterable => prefixMatch(iterable, [1])],
+        ["index", async iterable => index(iterable, 1)],
+        ["contains", async iterable => contains(iterable, 2)],
+        ["find", async iterable => find(iterable, e => e === 2)],
+        ["findIndex", async iterable => findIndex(iterable, e => e === 2)],
+        ["any", async iterable => any(iterable, e => e === 2)],
+        ["all", async iterable => all(iterable, e => e === 1)],
+        ["noneNull", async iterable => noneNull(map(iterable, e => (e === 2 ? null : e)))],
+        ["take", async iterable => toArray(take(iterable, 2))],
+        ["takeWhile", async iterable => toArray(takeWhile(iterable, e => e < 2))],
+        ["slice", async iterable => toArray(slice(iterable, 1, 2))],
+        ["tail", async iterable => toArray(take(tail(iterable), 1))],
+        ["initial", async iterable => toArray(take(initial(iterable), 1))],
+        ["drop", async iterable => toArray(take(drop(iterable, 1), 1))],
+        [
+            "dropWhile",
+            async iterable =>
+                toArray(
+                    take(
+                        dropWhile(iterable, e => e < 2),
+                        1
+                    )
+                )
+        ],
+        [
+            "excludeFirst",
+            async iterable =>
+                toArray(
+                    take(
+                        excludeFirst(iterable, e => e === 1),
+                        1
+                    )
+                )
+        ],
+        ["map", async iterable => toArray(take(map(iterable, String), 1))],
+        ["filter", async iterable => toArray(take(filter(iterable, Boolean), 1))],
+        [
+            "mapConcurrent",
+            async iterable => toArray(take(mapConcurrent(iterable, String, {concurrency: 2}), 1))
+        ],
+        [
+            "scan",
+            async iterable =>
+                toArray(
+                    take(
+                        scan(iterable, (a, e) => a + e, 0),
+                        1
+                    )
+                )
+        ],
+        [
+            "scan1",
+            async iterable =>
+                toArray(
+                    take(
+                        scan1(iterable, (a, e) => a + e),
+                        1
+                    )
+                )
+        ],
+        ["pairwise", async iterable => toArray(take(pairwise(iterable), 1))],
+        ["zip", async iterable => toArray(zip(iterable, [1]))],
+        ["concat", async iterable => toArray(take(concat([iterable, [4]]), 1))],
+        [
+            "mergeMap",
+            async iterable =>
+                toArray(
+                    take(
+                        mergeMap([1], () => iterable),
+                        1
+                    )
+                )
+        ],
+        ["merge", async iterable => toArray(take(merge([iterable]), 1))],
+        ["race", async iterable => toArray(take(race([iterable]), 1))]
+    ];
+
+    for (const [name, f] of cases) {
+        const iterable = new Tracked([1, 2, 3]);
+        await f(iterable);
+        t.is(iterable.returned, 1, name);
+    }
+});
+
+test("closes iterators on completion", async t => {
+    const cases: ReadonlyArray<
+        readonly [string, (iterable: AsyncIterable<number>) => Promise<unknown>]
+    > = [
+        ["toArray", toArray],
+        ["last", last],
+        ["fold1", async iterable => fold1(iterable, (a, e) => a + e)],
+        ["maximum", maximum],
+        ["maximumBy", async iterable => maximumBy(iterable, e => e)],
+        ["equal", async iterable => equal(iterable, [1, 2, 3])],
+        ["prefixMatch", async iterable => prefixMatch(iterable, [1, 2, 3, 4])],
+        ["slice", async iterable => toArray(slice(iterable, 1))],
+        ["tail", async iterable => toArray(tail(iterable))],
+        ["initial", async iterable => toArray(initial(iterable))],
+        ["pairwise", async iterable => toArray(pairwise(iterable))],
+        ["zipStrict", async iterable => toArray(zipStrict(iterable, [3, 2, 1]))],
+        [
+            "mapConcurrent",
+            async iterable => toArray(mapConcurrent(iterable, String, {concurrency: 2}))
+        ],
+        ["merge", async iterable => toArray(merge([iterable, [4]]))]
+    ];
+
+    for (const [name, f] of cases) {
+        const iterable = new Tracked([1, 2, 3]);
+        await f(iterable);
+        t.true(iterable.closed, name);
+        t.true(iterable.returned <= 1, name);
+    }
+});
+
+test("closes iterators on consumer break", async t => {
+    const cases: ReadonlyArray<
+        readonly [string, (iterable: AsyncIterable<number>) => AsyncIterable<unknown>]
+    > = [
+        ["tail", tail],
+        ["initial", initial],
+        ["slice", slice],
+        ["drop", iterable => drop(iterable, 1)],
+        ["dropWhile", iterable => dropWhile(iterable, e => e < 2)],
+        ["excludeFirst", iterable => excludeFirst(iterable, e => e === 1)],
+        ["scan1", iterable => scan1(iterable, (a, e) => a + e)],
+        ["pairwise", pairwise],
+        ["zip", iterable => zip(iterable, [3, 2, 1])],
+        ["mapConcurrent", iterable => mapConcurrent(iterable, String, {concurrency: 2})],
+        ["mergeMap", iterable => mergeMap([1], () => iterable)],
+        ["throttle", iterable => throttle(iterable, 1000)]
+    ];
+
+    for (const [name, f] of cases) {
+        const iterable = new Tracked([1, 2, 3]);
+        const iterator = f(iterable)[Symbol.asyncIterator]();
+        await iterator.next();
+        await iterator.return?.();
+        t.is(iterable.returned, 1, name);
+    }
+});
+
+test("closes iterators on exceptions", async t => {
+    const fail = (): never => {
+        throw new Error("fail");
+    };
+    const cases: ReadonlyArray<
+        readonly [string, (iterable: AsyncIterable<number>) => Promise<unknown>]
+    > = [
+        ["equal", async iterable => equal(iterable, [1, 2, 3], fail)],
+        ["fold1", async iterable => fold1(iterable, fail)],
+        ["maximumBy", async iterable => maximumBy(iterable, fail)],
+        ["dropWhile", async iterable => toArray(dropWhile(iterable, fail))],
+        ["scan1", async iterable => toArray(scan1(iterable, fail))],
+        ["map", async iterable => toArray(map(iterable, fail))],
+        [
+            "mapConcurrent",
+            async iterable => toArray(mapConcurrent(iterable, fail, {concurrency: 2}))
+        ],
+        ["mergeMap", async iterable => toArray(mergeMap(iterable, fail))]
+    ];
+
+    for (const [name, f] of cases) {
+        const iterable = new Tracked([1, 2, 3]);
+        await t.throwsAsync(f(iterable), {message: "fail"}, name);
+        t.is(iterable.returned, 1, name);
+    }
+});
+
+test("seq", async t => {
+    const isNumber = (element: number | string): element is number => typeof element === "number";
+    const numbers: number[] = await seq([1, "a", 2, "b", 3])
+        .filter(isNumber)
+        .map(e => e * 2)
+        .take(2)
+        .toArray();
+    t.deepEqual(numbers, [2, 4]);
+
+    const found: number | null = await seq(asyncIterable<number | string>(["a", 1])).find(isNumber);
+    t.is(found, 1);
+    t.deepEqual(
+        await seq([1, 2, 3, 4])
+            .takeWhile(e => e < 3)
+            .toArray(),
+        [1, 2]
+    );
+
+    t.is(await seq([1, null, 2, undefined, 3]).excludeNull().sum(), 6);
+    t.is(await seq([3, 1, 2]).maximum(), 3);
+    t.is(await seq(["a", "bb"]).minimum((a, b) => b.length - a.length), "bb");
+    t.deepEqual(
+        await seq([[1, 2], asyncIterable([3])])
+            .concat()
+            .toArray(),
+        [1, 2, 3]
+    );
+    t.deepEqual(await seq([1, 2, 3]).pairwise().toArray(), [
+        [1, 2],
+        [2, 3]
+    ]);
+
+    const [a, b] = seq([1, 2, 3]).tee(2);
+    t.deepEqual(await a?.toArray(), [1, 2, 3]);
+    t.deepEqual(await b?.map(String).toArray(), ["1", "2", "3"]);
+
+    const sequence = seq(asyncIterable([1, 2, 3]));
+    const collected: number[] = [];
+    for await (const element of sequence) {
+        collected.push(element);
+    }
+    t.deepEqual(collected, [1, 2, 3]);
+});
+
+test("pipe", async t => {
+    const isNumber = (element: number | string): element is number => typeof element === "number";
+    const doubled: number[] = await pipe(
+        [1, "a", 2, "b", 3],
+        filterFn(isNumber),
+        mapFn(e => e * 2),
+        takeFn(2),
+        toArray
+    );
+    t.deepEqual(doubled, [2, 4]);
+
+    const total: number = await pipe(
+        asyncIterable([1, 2, 3, 4]),
+        takeWhileFn((e: number) => e < 4),
+        foldFn((a, e) => a + e, 0)
+    );
+    t.is(total, 6);
+
+    const keyed = await pipe(
+        ["apple", "avocado", "banana"],
+        keyByFn(e => e.charAt(0))
+    );
+    t.deepEqual(keyed.get("a"), ["apple", "avocado"]);
+    t.is(pipe(3), 3);
+});
+
+test("flow", async t => {
+    const isNumber = (element: number | string): element is number => typeof element === "number";
+    const sumOfNumbers = flow(
+        (values: ReadonlyArray<number | string>) => asyncIterable(values),
+        filterFn(isNumber),
+        foldFn((a, e) => a + e, 0)
+    );
+    t.is(await sumOfNumbers([1, "a", 2]), 3);
+    t.is(await sumOfNumbers([]), 0);
+
+    const join = flow(
+        (a: string, b: string) => `${a}${b}`,
+        s => s.length
+    );
+    t.is(join("ab", "cd"), 4);
+});
+
+test("fromEventEmitter", async t => {
+    const emitter = new EventEmitter();
+    const iterator = fromEventEmitter<number>(emitter, "data", {endEvent: "end"})[
+        Symbol.asyncIterator
+    ]();
+    const first = iterator.next();
+    emitter.emit("data", 1);
+    emitter.emit("data", 2);
+    emitter.emit("end");
+    t.deepEqual(await first, {done: false, value: 1});
+    t.deepEqual(await iterator.next(), {done: false, value: 2});
+    t.deepEqual(await iterator.next(), {done: true, value: undefined});
+    t.is(emitter.listenerCount("data"), 0);
+    t.is(emitter.listenerCount("error"), 0);
+    t.is(emitter.listenerCount("end"), 0);
+
+    const failing = fromEventEmitter(emitter, "data")[Symbol.asyncIterator]();
+    const failed = failing.next();
+    emitter.emit("error", new Error("emitter"));
+    await t.throwsAsync(failed, {message: "emitter"});
+    t.is(emitter.listenerCount("data"), 0);
+
+    const returned = fromEventEmitter(emitter, "data")[Symbol.asyncIterator]();
+    const next = returned.next();
+    emitter.emit("data", 1);
+    await next;
+    t.is(emitter.listenerCount("data"), 1);
+    await returned.return?.();
+    t.is(emitter.listenerCount("data"), 0);
+
+    const controller = new AbortController();
+    const aborted = fromEventEmitter(emitter, "data", {signal: controller.signal})[
+        Symbol.asyncIterator
+    ]();
+    const pending = aborted.next();
+    controller.abort();
+    await t.throwsAsync(pending, {any: true, name: "AbortError"});
+    t.is(emitter.listenerCount("data"), 0);
+
+    const abandoned = new AbortController();
+    fromEventEmitter(emitter, "data", {signal: abandoned.signal});
+    t.is(emitter.listenerCount("data"), 1);
+    abandoned.abort();
+    t.is(emitter.listenerCount("data"), 0);
+
+    t.throws(() => fromEventEmitter(emitter, "data", {bufferSize: 0}), {
+        instanceOf: RangeError
+    });
+});
+
+test("fromEventEmitter before iterating", async t => {
+    const emitter = new EventEmitter();
+    const events = fromEventEmitter<number>(emitter, "data", {endEvent: "end"});
+    t.is(emitter.listenerCount("data"), 1);
+    emitter.emit("data", 1);
+    emitter.emit("data", 2);
+    emitter.emit("end");
+    t.deepEqual(await toArray(events), [1, 2]);
+    t.is(emitter.listenerCount("data"), 0);
+    t.is(emitter.listenerCount("end"), 0);
+
+    await fromEventEmitter(emitter, "data")[Symbol.asyncIterator]().return?.();
+    t.is(emitter.listenerCount("data"), 0);
+    t.is(emitter.listenerCount("error"), 0);
+
+    t.deepEqual(await toArray(take(fromEventEmitter(emitter, "data"), 0)), []);
+    t.is(emitter.listenerCount("data"), 0);
+    t.is(emitter.listenerCount("error"), 0);
+});
+
+test("fromEventEmitter overflow", async t => {
+    const run = async (overflow: OverflowPolicy): Promise<number[]> => {
+        const emitter = new EventEmitter();
+        const iterator = fromEventEmitter<number>(emitter, "data", {
+            endEvent: "end",
+            bufferSize: 2,
+            overflow
+        })[Symbol.asyncIterator]();
+        const first = iterator.next();
+        emitter.emit("data", 1);
+        emitter.emit("data", 2);
+        emitter.emit("data", 3);
+        emitter.emit("end");
+        const values: number[] = [];
+        for (let result = await first; result.done !== true; result = await iterator.next()) {
+            values.push(result.value);
+        }
+        return values;
+    };
+
+    t.deepEqual(await run("unbounded"), [1, 2, 3]);
+    t.deepEqual(await run("dropNewest"), [1, 2]);
+    t.deepEqual(await run("dropOldest"), [2, 3]);
+    await t.throwsAsync(run("error"), {instanceOf: OverflowError});
+});
+
+test("fromEventTarget", async t => {
+    const listeners = new Map<string, Set<(event: {readonly detail: number}) => void>>();
+    const target: EventTargetLike<{readonly detail: number}> = {
+        addEventListener: (type, listener) => {
+            const set = listeners.get(type) ?? new Set();
+            set.add(listener);
+            listeners.set(type, set);
+        },
+        removeEventListener: (type, listener) => {
+            listeners.get(type)?.delete(listener);
+        }
+    };
+    const dispatch = (type: string, detail: number): void => {
+        for (const listener of listeners.get(type) ?? []) {
+            listener({detail});
+        }
+    };
+    const count = (): number =>
+        Array.from(listeners.values()).reduce((total, set) => total + set.size, 0);
+
+    const iterator = fromEventTarget(target, "message", {
+        errorType: "error",
+        endType: "close"
+    })[Symbol.asyncIterator]();
+    t.is(count(), 3);
+    dispatch("message", 1);
+    const first = iterator.next();
+    dispatch("message", 2);
+    dispatch("close", 0);
+    t.deepEqual(await first, {done: false, value: {detail: 1}});
+    t.deepEqual(await iterator.next(), {done: false, value: {detail: 2}});
+    t.deepEqual(await iterator.next(), {done: true, value: undefined});
+    t.is(count(), 0);
+
+    const failing = fromEventTarget(target, "message", {errorType: "error"})[
+        Symbol.asyncIterator
+    ]();
+    const failed = failing.next();
+    dispatch("error", 5);
+    t.deepEqual(await failed.then(undefined, (reason: unknown) => reason), {detail: 5});
+    t.is(count(), 0);
+});
+
+test("createChannel", async t => {
+    const channel = createChannel<number>({capacity: 2});
+    const states: string[] = [];
+    const pushes = [1, 2, 3].map(async value =>
+        channel.push(value).then(() => {
+            states.push(`pushed ${value}`);
+        })
+    );
+    await delay(0);
+    t.deepEqual(states, ["pushed 1", "pushed 2"]);
+
+    const iterator = channel.iterable[Symbol.asyncIterator]();
+    t.deepEqual(await iterator.next(), {done: false, value: 1});
+    await delay(0);
+    t.deepEqual(states, ["pushed 1", "pushed 2", "pushed 3"]);
+    await Promise.all(pushes);
+
+    channel.close();
+    await t.throwsAsync(channel.push(4), {message: "createChannel: closed"});
+    t.deepEqual(await iterator.next(), {done: false, value: 2});
+    t.deepEqual(await iterator.next(), {done: false, value: 3});
+    t.deepEqual(await iterator.next(), {done: true, value: undefined});
+
+    t.throws(() => createChannel({capacity: -1}), {instanceOf: RangeError});
+    t.throws(() => createChannel({capacity: 1.5}), {instanceOf: RangeError});
+});
+
+test("createChannel backpressure", async t => {
+    const channel = createChannel<number>();
+    const produce = async (values: readonly number[]): Promise<void> => {
+        for (const value of values) {
+            await channel.push(value);
+        }
+    };
+    const producers = Promise.all([produce([1, 3, 5]), produce([2, 4, 6])]).then(channel.close);
+    t.deepEqual(await toArray(map(channel.iterable, e => e * 10)), [10, 20, 30, 40, 50, 60]);
+    await producers;
+
+    const failing = createChannel<number>({capacity: Infinity});
+    await failing.push(1);
+    failing.error(new Error("channel"));
+    const failed: number[] = [];
+    await t.throwsAsync(
+        toArray(
+            map(failing.iterable, e => {
+                failed.push(e);
+                return e;
+            })
+        ),
+        {message: "channel"}
+    );
+    t.deepEqual(failed, [1]);
+
+    const abandoned = createChannel<number>();
+    const taken = abandoned.push(1);
+    const pending = abandoned.push(2);
+    t.deepEqual(await toArray(take(abandoned.iterable, 1)), [1]);
+    await taken;
+    await t.throwsAsync(pending, {message: "createChannel: closed"});
+    await t.throwsAsync(abandoned.push(3), {message: "createChannel: closed"});
+});
+
+const encode = (text: string, encoding: BufferEncoding = "utf-8"): Uint8Array =>
+    Uint8Array.from(Buffer.from(text, encoding));
+
+test("decodeText", async t => {
+    const text = "h\u00e9llo \u20ac \ud83d\ude00";
+    const bytes = encode(text);
+    const chunks = Array.from(bytes, byte => Uint8Array.of(byte));
+    t.is((await toArray(decodeText(chunks))).join(""), text);
+    t.deepEqual(await toArray(decodeText([bytes.subarray(0, 2), bytes.subarray(2)])), [
+        "h",
+        "\u00e9llo \u20ac \ud83d\ude00"
+    ]);
+    t.deepEqual(await toArray(decodeText([encode("caf\u00e9", "latin1")], "latin1")), [
+        "caf\u00e9"
+    ]);
+    t.deepEqual(await toArray(decodeTextFn()([Uint8Array.of(0xe2, 0x82)])), ["\ufffd"]);
+});
+
+test("splitLines", async t => {
+    const chunks = ["one\r", "\ntwo\n", "\nthr", "ee\nfour"];
+    t.deepEqual(await toArray(splitLines(chunks)), ["one", "two", "", "three", "four"]);
+    t.deepEqual(await toArray(splitLines(chunks, {keepEnds: true})), [
+        "one\r\n",
+        "two\n",
+        "\n",
+        "three\n",
+        "four"
+    ]);
+    t.deepEqual(await toArray(splitLinesFn()(["a\n", "b\r\n"])), ["a", "b"]);
+    t.deepEqual(await toArray(splitLines([])), []);
+    t.deepEqual(await toArray(splitLines(["a\r"])), ["a"]);
+    t.deepEqual(await toArray(splitLines(["a\r"], {keepEnds: true})), ["a\r"]);
+    t.deepEqual(await toArray(splitLines(["o", "n", "e\nt", "w", "o"])), ["one", "two"]);
+    t.deepEqual(await toArray(splitLines(["abc\r", "\n"], {maxLineLength: 3})), ["abc"]);
+    await t.throwsAsync(toArray(splitLines(["ab", "cd", "\n"], {maxLineLength: 3})), {
+        instanceOf: RangeError
+    });
+    await t.throwsAsync(toArray(splitLines(["a"], {maxLineLength: -1})), {
+        instanceOf: RangeError
+    });
+});
+
+test("splitOn", async t => {
+    t.deepEqual(await toArray(splitOn(["a:", ":b::", "c:", ":"], "::")), ["a", "b", "c", ""]);
+    t.deepEqual(await toArray(splitOn(["a,b", ",c"], ",")), ["a", "b", "c"]);
+    t.deepEqual(await toArray(splitOn([], ",")), []);
+    t.deepEqual(await toArray(splitOnFn(",")([""])), [""]);
+    await t.throwsAsync(toArray(splitOn(["a"], "")), {instanceOf: RangeError});
+
+    const bytes = await toArray(
+        splitOn(
+            [Uint8Array.of(1, 0), Uint8Array.of(0, 2, 0), Uint8Array.of(0)],
+            Uint8Array.of(0, 0)
+        )
+    );
+    t.deepEqual(
+        bytes.map(chunk => Array.from(chunk)),
+        [[1], [2], []]
+    );
+    const scattered = await toArray(
+        splitOn(
+            [[5], [0], [0], [0], [6], [7, 0, 0], [0, 8], [9]].map(chunk => Uint8Array.from(chunk)),
+            Uint8Array.of(0, 0, 0)
+        )
+    );
+    t.deepEqual(
+        scattered.map(chunk => Array.from(chunk)),
+        [[5], [6, 7], [8, 9]]
+    );
+    const split = splitOnFn(Uint8Array.of(10));
+    t.deepEqual(
+        (await toArray(split([Uint8Array.of(1, 10, 2)]))).map(chunk => Array.from(chunk)),
+        [[1], [2]]
+    );
+
+    t.deepEqual(
+        await seq([encode("alpha\r\nbe"), encode("ta\ngamma")])
+            .decodeText()
+            .splitLines()
+            .map(line => line.toUpperCase())
+            .toArray(),
+        ["ALPHA", "BETA", "GAMMA"]
+    );
+    t.deepEqual(await seq(["a;b"]).splitOn(";").toArray(), ["a", "b"]);
+});
+
+test("parseNdjson", async t => {
+    t.deepEqual(await toArray(parseNdjson(['{"a":1}\n[2,', "3]\r\n\n", '"four"'])), [
+        {a: 1},
+        [2, 3],
+        "four"
+    ]);
+    t.deepEqual(await toArray(parseNdjsonFn<number>()([encode("1\n2"), encode("\n")])), [1, 2]);
+
+    const error = await t.throwsAsync(toArray(parseNdjson(["1\n2\n{oops}\n4"])), {
+        instanceOf: JsonParseError
+    });
+    t.is(error?.line, 3);
+    t.regex(error?.message ?? "", /^parseNdjson: line 3: /u);
+});
+
+test("toNdjson", async t => {
+    t.deepEqual(await toArray(toNdjson([1, {a: "b"}, undefined])), [
+        "1\n",
+        '{"a":"b"}\n',
+        "null\n"
+    ]);
+    const values = [{a: [1, 2]}, "x\ny", null];
+    t.deepEqual(await toArray(parseNdjson(toNdjsonFn()(values))), values);
+    t.deepEqual(await seq(toNdjson(values)).parseNdjson().toArray(), values);
+});
+
+test("parseJsonArray", async t => {
+    const chunks = ['[1, {"a": [2', ', "]"]}, "x\\"', 'y", tr', "ue", ", null , -1.5e3\n]  "];
+    t.deepEqual(await toArray(parseJsonArray(chunks)), [
+        1,
+        {a: [2, "]"]},
+        'x"y',
+        true,
+        null,
+        -1500
+    ]);
+    t.deepEqual(await toArray(parseJsonArrayFn()([" [ ", "]"])), []);
+    const bytes = encode('["\u00e9", 2]');
+    t.deepEqual(await toArray(parseJsonArray([bytes.subarray(0, 3), bytes.subarray(3)])), [
+        "\u00e9",
+        2
+    ]);
+
+    let pulled = 0;
+    const source = async function* (): AsyncIterable<string> {
+        pulled = 1;
+        yield '[{"a": 1}, ';
+        pulled = 2;
+        yield "2]";
+    };
+    const iterator = parseJsonArray(source())[Symbol.asyncIterator]();
+    t.deepEqual(await iterator.next(), {done: false, value: {a: 1}});
+    t.is(pulled, 1);
+    t.deepEqual(await iterator.next(), {done: false, value: 2});
+    t.deepEqual(await iterator.next(), {done: true, value: undefined});
+
+    const fails = async (texts: readonly string[], line: number): Promise<void> => {
+        const error = await t.throwsAsync(toArray(parseJsonArray(texts)), {
+            instanceOf: JsonParseError
+        });
+        t.is(error?.line, line);
+    };
+    await fails(["[1,]"], 1);
+    await fails(["[1", ", 2"], 1);
+    await fails(["[1] 2"], 1);
+    await fails(["{}"], 1);
+    await fails(["[1 2]"], 1);
+    await fails(["[\n1,\n{oops}\n]"], 3);
+    t.deepEqual(await seq(["[1, 2]"]).parseJsonArray<number>().sum(), 3);
+});
+
+test("parseCsv", async t => {
+    const chunks = ["name,note\r", '\nann,"a, b"\nbob,"say ""h', 'i""\r\nthere"\n\n', "cy,"];
+    t.deepEqual(await toArray(parseCsv(chunks)), [
+        ["name", "note"],
+        ["ann", "a, b"],
+        ["bob", 'say "hi"\r\nthere'],
+        ["cy", ""]
+    ]);
+    t.deepEqual(await toArray(parseCsv(chunks, {header: true})), [
+        {name: "ann", note: "a, b"},
+        {name: "bob", note: 'say "hi"\r\nthere'},
+        {name: "cy", note: ""}
+    ]);
+    await t.throwsAsync(toArray(parseCsvFn({columns: ["a", "b"]})(["1,2\n3\n"])), {
+        instanceOf: CsvParseError,
+        message: "parseCsv: line 2: Expected 2 fields but found 1"
+    });
+    await t.throwsAsync(toArray(parseCsv(["a,b\r\n1\r\n"], {header: true})), {
+        message: "parseCsv: line 2: Expected 2 fields but found 1"
+    });
+    t.deepEqual(
+        await toArray(
+            parseCsv([encode("x\t'1\t2'\n")], {delimiter: "\t", quote: "'", columns: ["a", "b"]})
+        ),
+        [{a: "x", b: "1\t2"}]
+    );
+    t.deepEqual(await toArray(parseCsv(["a,b\n1,2\n"], {header: true, columns: ["x", "y"]})), [
+        {x: "1", y: "2"}
+    ]);
+    t.deepEqual(await toArray(parseCsv(['""\n,'])), [[""], ["", ""]]);
+
+    const error = await t.throwsAsync(toArray(parseCsv(['a\n"b"c'])), {instanceOf: CsvParseError});
+    t.is(error?.line, 2);
+    await t.throwsAsync(toArray(parseCsv(['a,"b\n'])), {instanceOf: CsvParseError});
+    await t.throwsAsync(toArray(parseCsv(["a"], {delimiter: "::"})), {instanceOf: RangeError});
+    await t.throwsAsync(toArray(parseCsv(["a"], {quote: ","})), {instanceOf: RangeError});
+});
+
+test("toCsv", async t => {
+    t.deepEqual(
+        await toArray(
+            toCsv([
+                ["a", 1, null],
+                ["b,c", 'say "hi"', "x\ny"]
+            ])
+        ),
+        ["a,1,\n", '"b,c","say ""hi""","x\ny"\n']
+    );
+    const records = [
+        {name: "ann", note: "a; b"},
+        {name: "bob", note: "plain"}
+    ];
+    t.deepEqual(await toArray(toCsv(records, {header: true, delimiter: ";"})), [
+        "name;note\n",
+        'ann;"a; b"\n',
+        "bob;plain\n"
+    ]);
+    t.deepEqual(await toArray(toCsvFn({columns: ["note"]})(records)), ["a; b\n", "plain\n"]);
+    t.deepEqual(await toArray(toCsv([["1", "2"]], {header: true, columns: ["x", "y"]})), [
+        "x,y\n",
+        "1,2\n"
+    ]);
+    t.deepEqual(await toArray(toCsv([], {header: true, columns: ["x", "y"]})), ["x,y\n"]);
+    await t.throwsAsync(toArray(toCsv([["1", "2"]], {header: true})), {instanceOf: RangeError});
+    t.deepEqual(
+        await seq(records).toCsv({header: true}).parseCsv({header: true}).toArray(),
+        records
+    );
+});
+
+test("range", async t => {
+    t.deepEqual(await toArray(range(0, 5)), [0, 1, 2, 3, 4]);
+    t.deepEqual(await toArray(range(5, 0, -2)), [5, 3, 1]);
+    t.deepEqual(await toArray(range(0, 1, 0.25)), [0, 0.25, 0.5, 0.75]);
+    t.deepEqual(await toArray(range(3, 3)), []);
+    t.deepEqual(await toArray(take(range(10), 3)), [10, 11, 12]);
+    t.deepEqual(await toArray(take(range(3, undefined, -1), 5)), [3, 2, 1, 0, -1]);
+    await t.throwsAsync(toArray(range(0, 5, 0)), {instanceOf: RangeError});
+    await t.throwsAsync(toArray(range(NaN)), {instanceOf: RangeError});
+
+    const controller = new AbortController();
+    const iterator = range(0, Infinity, 1, {signal: controller.signal})[Symbol.asyncIterator]();
+    t.deepEqual(await iterator.next(), {done: false, value: 0});
+    controller.abort();
+    await t.throwsAsync(iterator.next(), {any: true, name: "AbortError"});
+});
+
+test("repeat", async t => {
+    t.deepEqual(await toArray(repeat("a", 3)), ["a", "a", "a"]);
+    t.deepEqual(await toArray(repeat("a", 0)), []);
+    t.deepEqual(await toArray(take(repeat(1), 4)), [1, 1, 1, 1]);
+    await t.throwsAsync(toArray(repeat(1, -1)), {instanceOf: RangeError});
+});
+
+test("iterate", async t => {
+    const calls: number[] = [];
+    const doubled = iterate(1, async (e, i) => {
+        calls.push(i);
+        return e * 2;
+    });
+    t.deepEqual(await toArray(take(doubled, 4)), [1, 2, 4, 8]);
+    t.deepEqual(calls, [0, 1, 2]);
+    t.deepEqual(
+        await toArray(
+            takeWhile(
+                iterate(1, e => e * 3),
+                e => e < 50
+            )
+        ),
+        [1, 3, 9, 27]
+    );
+});
+
+test("unfold", async t => {
+    t.deepEqual(
+        await toArray(
+            unfold<number, readonly [number, number]>([0, 1], ([a, b], i) =>
+                i < 6 ? [a, [b, a + b]] : null
+            )
+        ),
+        [0, 1, 1, 2, 3, 5]
+    );
+    t.deepEqual(
+        await toArray(unfold(3, async n => (n > 0 ? ([`${n}`, n - 1] as const) : undefined))),
+        ["3", "2", "1"]
+    );
+});
+
+test("cycle", async t => {
+    let pulled = 0;
+    const source = async function* (): AsyncIterable<number> {
+        for (const e of [1, 2, 3]) {
+            ++pulled;
+            yield e;
+        }
+    };
+    t.deepEqual(await toArray(take(cycle(source()), 7)), [1, 2, 3, 1, 2, 3, 1]);
+    t.is(pulled, 3);
+    t.deepEqual(await toArray(take(cycleFn()(source()), 2)), [1, 2]);
+    t.deepEqual(await toArray(cycle([])), []);
+    t.deepEqual(await seq(["a", "b"]).cycle().take(3).toArray(), ["a", "b", "a"]);
+});
+
+test("paginate", async t => {
+    const pages = new Map<string, Page<number, string>>([
+        ["a", {items: [1, 2, 3], nextCursor: "b"}],
+        ["b", {items: [4, 5], nextCursor: "c"}],
+        ["c", {items: [6], nextCursor: null}]
+    ]);
+    const fetched: string[] = [];
+    const fetchPage = async (cursor: string): Promise<Page<number, string>> => {
+        fetched.push(cursor);
+        const page = pages.get(cursor);
+        if (page == null) {
+            throw new Error(`no page ${cursor}`);
+        }
+        return page;
+    };
+
+    const all = paginate(fetchPage, {initialCursor: "a"});
+    t.deepEqual(await toArray(all), [1, 2, 3, 4, 5, 6]);
+    t.deepEqual(fetched, ["a", "b", "c"]);
+    t.is(all.cursor, null);
+    t.deepEqual(await toArray(all), []);
+
+    fetched.splice(0);
+    const partial = paginate(fetchPage, {initialCursor: "a"});
+    t.deepEqual(await toArray(take(partial, 2)), [1, 2]);
+    t.deepEqual(fetched, ["a"]);
+    t.is(partial.cursor, "a");
+    t.is(partial.offset, 2);
+    t.deepEqual(await toArray(take(partial, 2)), [3, 4]);
+    t.is(partial.cursor, "b");
+    t.is(partial.offset, 1);
+
+    const resumed = paginate(fetchPage, {
+        initialCursor: partial.cursor ?? "",
+        initialOffset: partial.offset
+    });
+    t.deepEqual(await toArray(resumed), [5, 6]);
+
+    fetched.splice(0);
+    const prefetching = paginate(fetchPage, {initialCursor: "a", prefetch: true});
+    t.deepEqual(await toArray(take(prefetching, 1)), [1]);
+    t.deepEqual(fetched, ["a", "b"]);
+
+    const broken = paginate(fetchPage, {initialCursor: "b", prefetch: true});
+    pages.set("c", {items: [6], nextCursor: "d"});
+    t.deepEqual(await toArray(take(broken, 2)), [4, 5]);
+    await t.throwsAsync(toArray(broken), {message: "no page d"});
+
+    t.throws(() => paginate(fetchPage, {initialCursor: "a", initialOffset: -1}), {
+        instanceOf: RangeError
+    });
+});
+
+interface Keyed {
+    readonly key: number;
+    readonly name: string;
+}
+
+const byKey = (a: Keyed, b: Keyed): Comparison => compare(a.key, b.key);
+
+const keyed: readonly Keyed[] = [
+    {key: 2, name: "a"},
+    {key: 1, name: "b"},
+    {key: 2, name: "c"},
+    {key: 3, name: "d"},
+    {key: 1, name: "e"}
+];
+
+test("sort", async t => {
+    t.deepEqual(await sort(asyncIterable([3, 1, 2])), [1, 2, 3]);
+    t.deepEqual(await sort(asyncIterable(["b", "c", "a"]), reverse<string>(compare)), [
+        "c",
+        "b",
+        "a"
+    ]);
+    t.deepEqual(await sort(asyncIterable([])), []);
+    t.deepEqual(
+        (await sortFn(byKey)(keyed)).map(({name}) => name),
+        ["b", "e", "a", "c", "d"]
+    );
+    t.deepEqual(await seq([2, 3, 1]).sort(), [1, 2, 3]);
+});
+
+test("sortBy", async t => {
+    t.deepEqual(
+        (await sortBy(keyed, ({key}) => -key)).map(({name}) => name),
+        ["d", "a", "c", "b", "e"]
+    );
+    t.deepEqual(await sortByFn((e: string) => e.length)(["ccc", "a", "bb", "d"]), [
+        "a",
+        "d",
+        "bb",
+        "ccc"
+    ]);
+    t.deepEqual(await seq(["bb", "a"]).sortBy(async e => e.length), ["a", "bb"]);
+});
+
+test("largest", async t => {
+    t.deepEqual(await largest(asyncIterable([5, 1, 4, 2, 3]), 3), [5, 4, 3]);
+    t.deepEqual(await largest(asyncIterable([1, 2]), 5), [2, 1]);
+    t.deepEqual(await largest(asyncIterable([1, 2]), 0), []);
+    t.deepEqual(
+        (await largestFn(2, byKey)(keyed)).map(({name}) => name),
+        ["d", "a"]
+    );
+    t.deepEqual(
+        (await largest(keyed, 3, byKey)).map(({name}) => name),
+        ["d", "a", "c"]
+    );
+
+    const values = Array.from({length: 1000}, (_, i) => (i * 7919) % 1009);
+    const sorted = Array.from(values).sort((a, b) => b - a);
+    t.deepEqual(await largest(values, 10), sorted.slice(0, 10));
+    t.deepEqual(await seq(values).largest(1), [1008]);
+
+    await t.throwsAsync(largest([1], -1), {instanceOf: RangeError});
+    await t.throwsAsync(largest([1], 1.5), {instanceOf: RangeError});
+});
+
+test("smallest", async t => {
+    t.deepEqual(await smallest(asyncIterable([5, 1, 4, 2, 3]), 2), [1, 2]);
+    t.deepEqual(
+        (await smallest(keyed, 3, byKey)).map(({name}) => name),
+        ["b", "e", "a"]
+    );
+    t.deepEqual(
+        (await smallestFn(1, byKey)(keyed)).map(({name}) => name),
+        ["b"]
+    );
+    t.deepEqual(await seq(["b", "c", "a"]).smallest(2), ["a", "b"]);
+    await t.throwsAsync(smallest([1], -1), {instanceOf: RangeError});
+});
@@ -8,14 +8,77 @@ import {
 import {isNotNull} from "@softwareventures/nullable";
 
 export type AsyncIterableLike<T> =
+    | AsyncIterable<T>
+    | Iterable<T | Promise<T>>
+    | ReadableStreamLike<T>
+    | Promise<AsyncIterable<T>>
+    | Promise<Iterable<T | Promise<T>>>
+    | Promise<ReadableStreamLike<T>>;
+
+type ForAwaitable<T> =
     | AsyncIterable<T>
     | Iterable<T | Promise<T>>
     | Promise<AsyncIterable<T>>
     | Promise<Iterable<T | Promise<T>>>;
 
+export interface ReadableStreamLike<T> {
+    readonly getReader: () => ReadableStreamReaderLike<T>;
+}
+
+export interface ReadableStreamReaderLike<T> {
+    readonly read: () => Promise<ReadableStreamReadResultLike<T>>;
+    readonly releaseLock: () => void;
+    readonly cancel: (reason?: unknown) => Promise<void>;
+}
+
+export interface ReadableStreamReadResultLike<T> {
+    readonly done: boolean;
+    readonly value?: T | undefined;
+}
+
 export async function* asyncIterable<T>(iterable: AsyncIterableLike<T>): AsyncIterable<T> {
-    for await (const element of await iterable) {
-        yield element;
+    const awaited = await iterable;
+    if (isReadableStreamLike(awaited)) {
+        yield* readableStreamIterable(awaited);
+    } else {
+        for await (const element of awaited) {
+            yield element;
+        }
+    }
+}
+
+function isReadableStreamLike<T>(
+    value: AsyncIterable<T> | Iterable<T | Promise<T>> | ReadableStreamLike<T>
+): value is ReadableStreamLike<T> {
+    return (
+        typeof value === "object" &&
+        value != null &&
+        !(Symbol.asyncIterator in value) &&
+        !(Symbol.iterator in value) &&
+        typeof (value as Partial<ReadableStreamLike<T>>).getReader === "function"
+    );
+}
+
+async function* readableStreamIterable<T>(stream: ReadableStreamLike<T>): AsyncIterable<T> {
+    const reader = stream.getReader();
+    let finished = false;
+
+    try {
+        while (true) {
+            const result = await settle(async () => reader.read());
+            finished = result.rejected || result.value.done;
+
+            const element = unsettle(result);
+            if (element.done) {
+                return;
+            }
+            yield element.value as T;
+        }
+    } finally {
+        if (!finished) {
+            await reader.cancel();
+        }
+        reader.releaseLock();
     }
 }
 
@@ -27,9 +90,116 @@ export function isAsyncIterable(value: unknown): value is AsyncIterable<unknown>
     return typeof value === "object" && value != null && Symbol.asyncIterator in value;
 }
 
-export async function toArray<T>(iterable: AsyncIterableLike<T>): Promise<T[]> {
+function sourceIterator<T>(iterable: AsyncIterableLike<T>): AsyncIterator<T> {
+    return isAsyncIterable(iterable)
+        ? (iterable as AsyncIterable<T>)[Symbol.asyncIterator]()
+        : asyncIterator(iterable);
+}
+
+export interface SignalOptions {
+    readonly signal?: AbortSignal | undefined;
+}
+
+export async function* withSignal<T>(
+    iterable: AsyncIterableLike<T>,
+    signal: AbortSignal
+): AsyncIterable<T> {
+    const iterator = sourceIterator(iterable);
+    let busy = false;
+
+    try {
+        while (true) {
+            busy = true;
+            const element = await raceAbort(iterator.next(), signal);
+            busy = false;
+
+            if (element.done === true) {
+                return;
+            }
+            yield element.value;
+        }
+    } finally {
+        await closeIterator(iterator, busy);
+    }
+}
+
+export const asyncWithSignal = withSignal;
+
+export function withSignalFn<T>(
+    signal: AbortSignal
+): (iterable: AsyncIterableLike<T>) => AsyncIterable<T> {
+    return iterable => withSignal(iterable, signal);
+}
+
+export const asyncWithSignalFn = withSignalFn;
+
+function abortable<T>(iterable: AsyncIterableLike<T>, options: SignalOptions): ForAwaitable<T> {
+    if (options.signal != null) {
+        return withSignal(iterable, options.signal);
+    } else if (
+        typeof iterable === "object" &&
+        (Symbol.asyncIterator in iterable || Symbol.iterator in iterable)
+    ) {
+        return iterable as ForAwaitable<T>;
+    } else {
+        return asyncIterable(iterable);
+    }
+}
+
+interface AbortSignalTarget {
+    readonly aborted: boolean;
+    readonly reason: unknown;
+    readonly addEventListener: (type: "abort", listener: () => void) => void;
+    readonly removeEventListener: (type: "abort", listener: () => void) => void;
+}
+
+function throwIfAborted(signal: AbortSignal | undefined): void {
+    const target = signal as unknown as AbortSignalTarget | undefined;
+    if (target?.aborted === true) {
+        throw target.reason;
+    }
+}
+
+async function raceAbort<T>(promise: Promise<T>, signal: AbortSignal | undefined): Promise<T> {
+    if (signal == null) {
+        return promise;
+    }
+
+    const target = signal as unknown as AbortSignalTarget;
+    let abort = (): void => undefined;
+    const aborted = new Promise<never>((_, reject) => {
+        abort = () => {
+            reject(target.reason);
+        };
+    });
+
+    if (target.aborted) {
+        abort();
+    }
+
+    target.addEventListener("abort", abort);
+    try {
+        return await Promise.race([promise, aborted]);
+    } finally {
+        target.removeEventListener("abort", abort);
+    }
+}
+
+async function closeIterator(iterator: AsyncIterator<unknown>, busy = false): Promise<void> {
+    const closed = iterator.return?.();
+    if (busy) {
+        closed?.then(undefined, () => undefined);
+    } else {
+        await closed;
+    }
+}
+
+export async function toArray<T>(
+    iterable: AsyncIterableLike<T>,
+    options: SignalOptions = {}
+): Promise<T[]> {
     const array: T[] = [];
-    for await (const element of await iterable) {
+    for await (const element of await abortable(iterable, options)) {
         array.push(element);
     }
     return array;
@@ -37,9 +207,12 @@ export async function toArray<T>(iterable: AsyncIterableLike<T>): Promise<T[]> {
 
 export const asyncToArray = toArray;
 
-export async function toSet<T>(iterable: AsyncIterableLike<T>): Promise<Set<T>> {
+export async function toSet<T>(
+    iterable: AsyncIterableLike<T>,
+    options: SignalOptions = {}
+): Promise<Set<T>> {
     const set = new Set<T>();
-    for await (const element of await iterable) {
+    for await (const element of await abortable(iterable, options)) {
         set.add(element);
     }
     return set;
@@ -47,21 +220,36 @@ export async function toSet<T>(iterable: AsyncIterableLike<T>): Promise<Set<T>>
 
 export const asyncToSet = toSet;
 
-export async function first<T>(iterable: AsyncIterableLike<T>): Promise<T | null> {
-    const result = await asyncIterator(iterable).next();
-    return result.done === true ? null : result.value;
+export async function first<T>(
+    iterable: AsyncIterableLike<T>,
+    options: SignalOptions = {}
+): Promise<T | null> {
+    const iterator = asyncIterator(abortable(iterable, options));
+    try {
+        const result = await iterator.next();
+        return result.done === true ? null : result.value;
+    } finally {
+        await closeIterator(iterator);
+    }
 }
 
 export const asyncFirst = first;
 
-export async function* tail<T>(iterable: AsyncIterableLike<T>): AsyncIterable<T> {
-    const iterator = asyncIterator(iterable);
-    await iterator.next();
-
-    let element = await iterator.next();
-    while (element.done !== true) {
-        yield element.value;
-        element = await iterator.next();
+export async function* tail<T>(
+    iterable: AsyncIterableLike<T>,
+    options: SignalOptions = {}
+): AsyncIterable<T> {
+    const iterator = asyncIterator(abortable(iterable, options));
+    try {
+        await iterator.next();
+
+        let element = await iterator.next();
+        while (element.done !== true) {
+            yield element.value;
+            element = await iterator.next();
+        }
+    } finally {
+        await closeIterator(iterator);
     }
 }
 
@@ -69,9 +257,10 @@ export const asyncTail = tail;
 
 export async function* push<T>(
     iterable: AsyncIterableLike<T>,
-    value: T | Promise<T>
+    value: T | Promise<T>,
+    options: SignalOptions = {}
 ): AsyncIterable<T> {
-    for await (const element of await iterable) {
+    for await (const element of await abortable(iterable, options)) {
         yield element;
     }
 
@@ -81,20 +270,22 @@ export async function* push<T>(
 export const asyncPush = push;
 
 export function pushFn<T>(
-    value: T | Promise<T>
+    value: T | Promise<T>,
+    options: SignalOptions = {}
 ): (iterable: AsyncIterableLike<T>) => AsyncIterable<T> {
-    return iterable => push(iterable, value);
+    return iterable => push(iterable, value, options);
 }
 
 export const asyncPushFn = pushFn;
 
 export async function* unshift<T>(
     iterable: AsyncIterableLike<T>,
-    value: T | Promise<T>
+    value: T | Promise<T>,
+    options: SignalOptions = {}
 ): AsyncIterable<T> {
     yield await value;
 
-    for await (const element of await iterable) {
+    for await (const element of await abortable(iterable, options)) {
         yield element;
     }
 }
@@ -102,31 +293,42 @@ export async function* unshift<T>(
 export const asyncUnshift = unshift;
 
 export function unshiftFn<T>(
-    value: T | Promise<T>
+    value: T | Promise<T>,
+    options: SignalOptions = {}
 ): (iterable: AsyncIterableLike<T>) => AsyncIterable<T> {
-    return iterable => unshift(iterable, value);
+    return iterable => unshift(iterable, value, options);
 }
 
 export const asyncUnshiftFn = unshiftFn;
 
-export async function* initial<T>(iterable: AsyncIterable<T>): AsyncIterable<T> {
-    const iterator = asyncIterator(iterable);
-    let prev = await iterator.next();
-    let element = prev.done === true ? prev : await iterator.next();
-
-    while (element.done !== true) {
-        yield prev.value;
-        prev = element;
-        element = await iterator.next();
+export async function* initial<T>(
+    iterable: AsyncIterable<T>,
+    options: SignalOptions = {}
+): AsyncIterable<T> {
+    const iterator = asyncIterator(abortable(iterable, options));
+    try {
+        let prev = await iterator.next();
+        let element = prev.done === true ? prev : await iterator.next();
+
+        while (element.done !== true) {
+            yield prev.value;
+            prev = element;
+            element = await iterator.next();
+        }
+    } finally {
+        await closeIterator(iterator);
     }
 }
 
 export const asyncInitial = initial;
 
-export async function last<T>(iterable: AsyncIterableLike<T>): Promise<T | null> {
+export async function last<T>(
+    iterable: AsyncIterableLike<T>,
+    options: SignalOptions = {}
+): Promise<T | null> {
     let last: T | null = null;
 
-    for await (const element of await iterable) {
+    for await (const element of await abortable(iterable, options)) {
         last = element;
     }
 
@@ -135,23 +337,43 @@ export async function last<T>(iterable: AsyncIterableLike<T>): Promise<T | null>
 
 export const asyncLast = last;
 
-export async function only<T>(iterable: AsyncIterableLike<T>): Promise<T | null> {
-    const iterator = asyncIterator(iterable);
-    const first = await iterator.next();
-
-    return !(first.done ?? false) && ((await iterator.next()).done ?? false) ? first.value : null;
+export async function only<T>(
+    iterable: AsyncIterableLike<T>,
+    options: SignalOptions = {}
+): Promise<T | null> {
+    const iterator = asyncIterator(abortable(iterable, options));
+    try {
+        const first = await iterator.next();
+
+        return !(first.done ?? false) && ((await iterator.next()).done ?? false)
+            ? first.value
+            : null;
+    } finally {
+        await closeIterator(iterator);
+    }
 }
 
 export const asyncOnly = only;
 
-export async function empty(iterable: AsyncIterableLike<unknown>): Promise<boolean> {
-    return (await asyncIterator(iterable).next()).done === true;
+export async function empty(
+    iterable: AsyncIterableLike<unknown>,
+    options: SignalOptions = {}
+): Promise<boolean> {
+    const iterator = asyncIterator(abortable(iterable, options));
+    try {
+        return (await iterator.next()).done === true;
+    } finally {
+        await closeIterator(iterator);
+    }
 }
 
 export const asyncEmpty = empty;
 
-export async function notEmpty(iterable: AsyncIterableLike<unknown>): Promise<boolean> {
-    return !(await empty(iterable));
+export async function notEmpty(
+    iterable: AsyncIterableLike<unknown>,
+    options: SignalOptions = {}
+): Promise<boolean> {
+    return !(await empty(iterable, options));
 }
 
 export const asyncNotEmpty = notEmpty;
@@ -159,7 +381,8 @@ export const asyncNotEmpty = notEmpty;
 export async function* slice<T>(
     iterable: AsyncIterableLike<T>,
     start: number | Promise<number> = 0,
-    end: number | Promise<number> = Infinity
+    end: number | Promise<number> = Infinity,
+    options: SignalOptions = {}
 ): AsyncIterable<T> {
     const s = await start;
     const e = await end;
@@ -168,31 +391,39 @@ export async function* slice<T>(
         return;
     }
 
-    const iterator = asyncIterator(iterable);
-    let element = await iterator.next();
+    const iterator = asyncIterator(abortable(iterable, options));
+    try {
+        let element = await iterator.next();
 
-    for (let i = 0; i < s && element.done !== true; ++i) {
-        element = await iterator.next();
-    }
+        for (let i = 0; i < s && element.done !== true; ++i) {
+            element = await iterator.next();
+        }
 
-    for (let i = s; i < e && element.done !== true; ++i) {
-        yield element.value;
-        element = await iterator.next();
+        for (let i = s; i < e && element.done !== true; ++i) {
+            yield element.value;
+            if (i + 1 < e) {
+                element = await iterator.next();
+            }
+        }
+    } finally {
+        await closeIterator(iterator);
     }
 }
 
 export async function* take<T>(
     iterable: AsyncIterableLike<T>,
-    count: number | Promise<number>
+    count: number | Promise<number>,
+    options: SignalOptions = {}
 ): AsyncIterable<T> {
     const c = await count;
     if (c === 0) {
+        await closeIterator(sourceIterator(iterable));
         return;
     }
 
     let i = 0;
 
-    for await (const element of await iterable) {
+    for await (const element of await abortable(iterable, options)) {
         yield element;
         if (++i >= c) {
             return;
@@ -203,54 +434,64 @@ export async function* take<T>(
 export const asyncTake = take;
 
 export function takeFn<T>(
-    count: number | Promise<number>
+    count: number | Promise<number>,
+    options: SignalOptions = {}
 ): (iterable: AsyncIterableLike<T>) => AsyncIterable<T> {
-    return iterable => take(iterable, count);
+    return iterable => take(iterable, count, options);
 }
 
 export const asyncTakeFn = takeFn;
 
 export async function* drop<T>(
     iterable: AsyncIterableLike<T>,
-    count: number | Promise<number>
+    count: number | Promise<number>,
+    options: SignalOptions = {}
 ): AsyncIterable<T> {
-    const iterator = asyncIterator(iterable);
-    const c = await count;
-    let element = await iterator.next();
-    for (let i = 0; i < c && element.done !== true; ++i) {
-        element = await iterator.next();
-    }
+    const iterator = asyncIterator(abortable(iterable, options));
+    try {
+        const c = await count;
+        let element = await iterator.next();
+        for (let i = 0; i < c && element.done !== true; ++i) {
+            element = await iterator.next();
+        }
 
-    while (element.done !== true) {
-        yield element.value;
-        element = await iterator.next();
+        while (element.done !== true) {
+            yield element.value;
+            element = await iterator.next();
+        }
+    } finally {
+        await closeIterator(iterator);
     }
 }
 
 export const asyncDrop = drop;
 
 export function dropFn<T>(
-    count: number | Promise<number>
+    count: number | Promise<number>,
+    options: SignalOptions = {}
 ): (iterable: AsyncIterableLike<T>) => AsyncIterable<T> {
-    return iterable => drop(iterable, count);
+    return iterable => drop(iterable, count, options);
 }
 
 export const asyncDropFn = dropFn;
 
 export function takeWhile<T, U extends T>(
     iterable: AsyncIterableLike<T>,
-    predicate: (element: T, index: number) => element is U
+    predicate: (element: T, index: number) => element is U,
+    options?: SignalOptions
 ): AsyncIterable<U>;
 export function takeWhile<T>(
     iterable: AsyncIterableLike<T>,
-    predicate: (element: T, index: number) => boolean | Promise<boolean>
+    predicate: (element: T, index: number) => boolean | Promise<boolean>,
+    options?: SignalOptions
 ): AsyncIterable<T>;
 export async function* takeWhile<T>(
     iterable: AsyncIterableLike<T>,
-    predicate: (element: T, index: number) => boolean | Promise<boolean>
+    predicate: (element: T, index: number) => boolean | Promise<boolean>,
+    options: SignalOptions = {}
 ): AsyncIterable<T> {
     let i = 0;
-    for await (const element of await iterable) {
+    for await (const element of await abortable(iterable, options)) {
         if (!(await predicate(element, i))) {
             return;
         }
@@ -262,73 +503,94 @@ export async function* takeWhile<T>(
 export const asyncTakeWhile = takeWhile;
 
 export function takeWhileFn<T, U extends T>(
-    predicate: (element: T, index: number) => element is U
+    predicate: (element: T, index: number) => element is U,
+    options?: SignalOptions
 ): (iterable: AsyncIterableLike<T>) => AsyncIterable<U>;
 export function takeWhileFn<T>(
-    predicate: (element: T, index: number) => boolean | Promise<boolean>
+    predicate: (element: T, index: number) => boolean | Promise<boolean>,
+    options?: SignalOptions
 ): (iterable: AsyncIterableLike<T>) => AsyncIterable<T>;
 export function takeWhileFn<T>(
-    predicate: (element: T, index: number) => boolean | Promise<boolean>
+    predicate: (element: T, index: number) => boolean | Promise<boolean>,
+    options: SignalOptions = {}
 ): (iterable: AsyncIterableLike<T>) => AsyncIterable<T> {
-    return iterable => takeWhile(iterable, predicate);
+    return iterable => takeWhile(iterable, predicate, options);
 }
 
 export const asyncTakeWhileFn = takeWhileFn;
 
 export function takeUntil<T>(
     iterable: AsyncIterableLike<T>,
-    predicate: (element: T, index: number) => boolean | Promise<boolean>
+    predicate: (element: T, index: number) => boolean | Promise<boolean>,
+    options: SignalOptions = {}
 ): AsyncIterable<T> {
-    return takeWhile(iterable, async (element, index) => !(await predicate(element, index)));
+    return takeWhile(
+        iterable,
+        async (element, index) => !(await predicate(element, index)),
+        options
+    );
 }
 
 export const asyncTakeUntil = takeUntil;
 
 export function takeUntilFn<T>(
-    predicate: (element: T, index: number) => boolean | Promise<boolean>
+    predicate: (element: T, index: number) => boolean | Promise<boolean>,
+    options: SignalOptions = {}
 ): (iterable: AsyncIterableLike<T>) => AsyncIterable<T> {
-    return iterable => takeUntil(iterable, predicate);
+    return iterable => takeUntil(iterable, predicate, options);
 }
 
 export const asyncTakeUntilFn = takeUntilFn;
 
 export async function* dropWhile<T>(
     iterable: AsyncIterableLike<T>,
-    predicate: (element: T, index: number) => boolean | Promise<boolean>
+    predicate: (element: T, index: number) => boolean | Promise<boolean>,
+    options: SignalOptions = {}
 ): AsyncIterable<T> {
-    const iterator = asyncIterator(iterable);
-    let element = await iterator.next();
-    for (let i = 0; element.done !== true && (await predicate(element.value, i)); ++i) {
-        element = await iterator.next();
-    }
+    const iterator = asyncIterator(abortable(iterable, options));
+    try {
+        let element = await iterator.next();
+        for (let i = 0; element.done !== true && (await predicate(element.value, i)); ++i) {
+            element = await iterator.next();
+        }
 
-    while (element.done !== true) {
-        yield element.value;
-        element = await iterator.next();
+        while (element.done !== true) {
+            yield element.value;
+            element = await iterator.next();
+        }
+    } finally {
+        await closeIterator(iterator);
     }
 }
 
 export const asyncDropWhile = dropWhile;
 
 export function dropWhileFn<T>(
-    predicate: (element: T, index: number) => boolean | Promise<boolean>
+    predicate: (element: T, index: number) => boolean | Promise<boolean>,
+    options: SignalOptions = {}
 ): (iterable: AsyncIterableLike<T>) => AsyncIterable<T> {
-    return iterable => dropWhile(iterable, predicate);
+    return iterable => dropWhile(iterable, predicate, options);
 }
 
 export function dropUntil<T>(
     iterable: AsyncIterableLike<T>,
-    predicate: (element: T, index: number) => boolean | Promise<boolean>
+    predicate: (element: T, index: number) => boolean | Promise<boolean>,
+    options: SignalOptions = {}
 ): AsyncIterable<T> {
-    return dropWhile(iterable, async (element, index) => !(await predicate(element, index)));
+    return dropWhile(
+        iterable,
+        async (element, index) => !(await predicate(element, index)),
+        options
+    );
 }
 
 export const asyncDropUntil = dropUntil;
 
 export function dropUntilFn<T>(
-    predicate: (element: T, index: number) => boolean | Promise<boolean>
+    predicate: (element: T, index: number) => boolean | Promise<boolean>,
+    options: SignalOptions = {}
 ): (iterable: AsyncIterableLike<T>) => AsyncIterable<T> {
-    return iterable => dropUntil(iterable, predicate);
+    return iterable => dropUntil(iterable, predicate, options);
 }
 
 export const asyncDropUntilFn = dropUntilFn;
@@ -336,33 +598,39 @@ export const asyncDropUntilFn = dropUntilFn;
 export async function equal<T>(
     a: AsyncIterableLike<T>,
     b: AsyncIterableLike<T>,
-    elementsEqual: (a: T, b: T) => boolean | Promise<boolean> = defaultEqual
+    elementsEqual: (a: T, b: T) => boolean | Promise<boolean> = defaultEqual,
+    options: SignalOptions = {}
 ): Promise<boolean> {
-    const ait = asyncIterator(a);
-    const bit = asyncIterator(b);
+    const ait = asyncIterator(abortable(a, options));
+    const bit = asyncIterator(abortable(b, options));
 
-    let ar = await ait.next();
-    let br = await bit.next();
+    try {
+        let ar = await ait.next();
+        let br = await bit.next();
 
-    while (ar.done !== true && br.done !== true) {
-        if (!(await elementsEqual(ar.value, br.value))) {
-            return false;
+        while (ar.done !== true && br.done !== true) {
+            if (!(await elementsEqual(ar.value, br.value))) {
+                return false;
+            }
+
+            ar = await ait.next();
+            br = await bit.next();
         }
 
-        ar = await ait.next();
-        br = await bit.next();
+        return (ar.done ?? false) && (br.done ?? false);
+    } finally {
+        await Promise.all([closeIterator(ait), closeIterator(bit)]);
     }
-
-    return (ar.done ?? false) && (br.done ?? false);
 }
 
 export const asyncEqual = equal;
 
 export function equalFn<T>(
     b: AsyncIterableLike<T>,
-    elementsEqual: (a: T, b: T) => boolean | Promise<boolean> = defaultEqual
+    elementsEqual: (a: T, b: T) => boolean | Promise<boolean> = defaultEqual,
+    options: SignalOptions = {}
 ): (a: AsyncIterableLike<T>) => Promise<boolean> {
-    return async a => equal(a, b, elementsEqual);
+    return async a => equal(a, b, elementsEqual, options);
 }
 
 export const asyncEqualFn = equalFn;
@@ -370,18 +638,20 @@ export const asyncEqualFn = equalFn;
 export async function notEqual<T>(
     a: AsyncIterableLike<T>,
     b: AsyncIterableLike<T>,
-    elementsEqual: (a: T, b: T) => boolean | Promise<boolean> = defaultEqual
+    elementsEqual: (a: T, b: T) => boolean | Promise<boolean> = defaultEqual,
+    options: SignalOptions = {}
 ): Promise<boolean> {
-    return !(await equal(a, b, elementsEqual));
+    return !(await equal(a, b, elementsEqual, options));
 }
 
 export const asyncNotEqual = notEqual;
 
 export function notEqualFn<T>(
     b: AsyncIterableLike<T>,
-    elementsEqual: (a: T, b: T) => boolean | Promise<boolean> = defaultEqual
+    elementsEqual: (a: T, b: T) => boolean | Promise<boolean> = defaultEqual,
+    options: SignalOptions = {}
 ): (a: AsyncIterableLike<T>) => Promise<boolean> {
-    return async a => notEqual(a, b, elementsEqual);
+    return async a => notEqual(a, b, elementsEqual, options);
 }
 
 export const asyncNotEqualFn = notEqualFn;
@@ -389,43 +659,50 @@ export const asyncNotEqualFn = notEqualFn;
 export async function prefixMatch<T>(
     a: AsyncIterableLike<T>,
     b: AsyncIterableLike<T>,
-    elementsEqual: (a: T, b: T) => boolean | Promise<boolean> = defaultEqual
+    elementsEqual: (a: T, b: T) => boolean | Promise<boolean> = defaultEqual,
+    options: SignalOptions = {}
 ): Promise<boolean> {
-    const ait = asyncIterator(a);
-    const bit = asyncIterator(b);
+    const ait = asyncIterator(abortable(a, options));
+    const bit = asyncIterator(abortable(b, options));
 
-    let ar = await ait.next();
-    let br = await bit.next();
+    try {
+        let ar = await ait.next();
+        let br = await bit.next();
 
-    while (ar.done !== true && br.done !== true) {
-        if (!(await elementsEqual(ar.value, br.value))) {
-            return false;
+        while (ar.done !== true && br.done !== true) {
+            if (!(await elementsEqual(ar.value, br.value))) {
+                return false;
+            }
+
+            ar = await ait.next();
+            br = await bit.next();
         }
 
-        ar = await ait.next();
-        br = await bit.next();
+        return br.done ?? false;
+    } finally {
+        await Promise.all([closeIterator(ait), closeIterator(bit)]);
     }
-
-    return br.done ?? false;
 }
 
 export const asyncPrefixMatch = prefixMatch;
 
 export function prefixMatchFn<T>(
     b: AsyncIterableLike<T>,
-    elementsEqual: (a: T, b: T) => boolean | Promise<boolean> = defaultEqual
+    elementsEqual: (a: T, b: T) => boolean | Promise<boolean> = defaultEqual,
+    options: SignalOptions = {}
 ): (a: AsyncIterableLike<T>) => Promise<boolean> {
-    return async a => prefixMatch(a, b, elementsEqual);
+    return async a => prefixMatch(a, b, elementsEqual, options);
 }
 
 export const asyncPrefixMatchFn = prefixMatchFn;
 
 export async function* map<T, U>(
     iterable: AsyncIterableLike<T>,
-    f: (element: T, index: number) => U | Promise<U>
+    f: (element: T, index: number) => U | Promise<U>,
+    options: SignalOptions = {}
 ): AsyncIterable<U> {
     let i = 0;
-    for await (const element of await iterable) {
+    for await (const element of await abortable(iterable, options)) {
         yield await f(element, i++);
     }
 }
@@ -433,27 +710,131 @@ export async function* map<T, U>(
 export const asyncMap = map;
 
 export function mapFn<T, U>(
-    f: (element: T) => U | Promise<U>
+    f: (element: T) => U | Promise<U>,
+    options: SignalOptions = {}
 ): (iterable: AsyncIterableLike<T>) => AsyncIterable<U> {
-    return iterable => map(iterable, f);
+    return iterable => map(iterable, f, options);
 }
 
 export const asyncMapFn = mapFn;
 
+export interface MapConcurrentOptions extends SignalOptions {
+    readonly concurrency: number;
+    readonly ordered?: boolean | undefined;
+}
+
+export async function* mapConcurrent<T, U>(
+    iterable: AsyncIterableLike<T>,
+    f: (element: T, index: number) => U | Promise<U>,
+    options: MapConcurrentOptions
+): AsyncIterable<U> {
+    const concurrency = options.concurrency;
+    const ordered = options.ordered ?? true;
+
+    if (concurrency < 1 || Math.floor(concurrency) !== concurrency) {
+        throw new RangeError("mapConcurrent: illegal concurrency");
+    }
+
+    const iterator = asyncIterator(abortable(iterable, options));
+    const pending = new Map<number, Promise<MapConcurrentEvent<T, U>>>();
+    let next: Promise<MapConcurrentEvent<T, U>> | null = null;
+    let done = false;
+    let i = 0;
+
+    try {
+        while (true) {
+            if (!done && next == null && pending.size < concurrency) {
+                next = settle(async () => iterator.next()).then(result => ({id: null, result}));
+            }
+
+            const head = pending.values().next();
+            const candidates = ordered
+                ? head.done === true
+                    ? []
+                    : [head.value]
+                : Array.from(pending.values());
+            if (next != null) {
+                candidates.push(next);
+            }
+
+            if (candidates.length === 0) {
+                return;
+            }
+
+            const event = await raceAbort(Promise.race(candidates), options.signal);
+            if (event.id == null) {
+                next = null;
+                const element = unsettle(event.result);
+                if (element.done === true) {
+                    done = true;
+                } else {
+                    const id = i++;
+                    pending.set(
+                        id,
+                        settle(async () => f(element.value, id)).then(result => ({id, result}))
+                    );
+                }
+            } else {
+                pending.delete(event.id);
+                yield unsettle(event.result);
+            }
+        }
+    } finally {
+        await closeIterator(iterator, next != null);
+    }
+}
+
+type MapConcurrentEvent<T, U> =
+    | {readonly id: null; readonly result: Settled<IteratorResult<T>>}
+    | {readonly id: number; readonly result: Settled<U>};
+
+export const asyncMapConcurrent = mapConcurrent;
+
+export function mapConcurrentFn<T, U>(
+    f: (element: T, index: number) => U | Promise<U>,
+    options: MapConcurrentOptions
+): (iterable: AsyncIterableLike<T>) => AsyncIterable<U> {
+    return iterable => mapConcurrent(iterable, f, options);
+}
+
+export const asyncMapConcurrentFn = mapConcurrentFn;
+
+type Settled<T> =
+    | {readonly rejected: false; readonly value: T}
+    | {readonly rejected: true; readonly reason: unknown};
+
+async function settle<T>(f: () => T | Promise<T>): Promise<Settled<T>> {
+    try {
+        return {rejected: false, value: await f()};
+    } catch (reason: unknown) {
+        return {rejected: true, reason};
+    }
+}
+
+function unsettle<T>(result: Settled<T>): T {
+    if (result.rejected) {
+        throw result.reason;
+    }
+    return result.value;
+}
+
 export function filter<T, U extends T>(
     iterable: AsyncIterableLike<T>,
-    predicate: (element: T, index: number) => element is U
+    predicate: (element: T, index: number) => element is U,
+    options?: SignalOptions
 ): AsyncIterable<U>;
 export function filter<T>(
     iterable: AsyncIterableLike<T>,
-    predicate: (element: T, index: number) => boolean | Promise<boolean>
+    predicate: (element: T, index: number) => boolean | Promise<boolean>,
+    options?: SignalOptions
 ): AsyncIterable<T>;
 export async function* filter<T>(
     iterable: AsyncIterableLike<T>,
-    predicate: (element: T, index: number) => boolean | Promise<boolean>
+    predicate: (element: T, index: number) => boolean | Promise<boolean>,
+    options: SignalOptions = {}
 ): AsyncIterable<T> {
     let i = 0;
-    for await (const element of await iterable) {
+    for await (const element of await abortable(iterable, options)) {
         if (await predicate(element, i++)) {
             yield element;
         }
@@ -463,99 +844,125 @@ export async function* filter<T>(
 export const asyncFilter = filter;
 
 export function filterFn<T, U extends T>(
-    predicate: (element: T, index: number) => element is U
+    predicate: (element: T, index: number) => element is U,
+    options?: SignalOptions
 ): (iterable: AsyncIterableLike<T>) => AsyncIterable<U>;
 export function filterFn<T>(
-    predicate: (element: T, index: number) => boolean | Promise<boolean>
+    predicate: (element: T, index: number) => boolean | Promise<boolean>,
+    options?: SignalOptions
 ): (iterable: AsyncIterableLike<T>) => AsyncIterable<T>;
 export function filterFn<T>(
-    predicate: (element: T, index: number) => boolean | Promise<boolean>
+    predicate: (element: T, index: number) => boolean | Promise<boolean>,
+    options: SignalOptions = {}
 ): (iterable: AsyncIterableLike<T>) => AsyncIterable<T> {
-    return iterable => filter(iterable, predicate);
+    return iterable => filter(iterable, predicate, options);
 }
 
 export const asyncFilterFn = filterFn;
 
 export function exclude<T>(
     iterable: AsyncIterableLike<T>,
-    predicate: (element: T, index: number) => boolean | Promise<boolean>
+    predicate: (element: T, index: number) => boolean | Promise<boolean>,
+    options: SignalOptions = {}
 ): AsyncIterable<T> {
-    return filter(iterable, async (element, index) => !(await predicate(element, index)));
+    return filter(iterable, async (element, index) => !(await predicate(element, index)), options);
 }
 
 export const asyncExclude = exclude;
 
 export function excludeFn<T>(
-    predicate: (element: T, index: number) => boolean | Promise<boolean>
+    predicate: (element: T, index: number) => boolean | Promise<boolean>,
+    options: SignalOptions = {}
 ): (iterable: AsyncIterableLike<T>) => AsyncIterable<T> {
-    return iterable => exclude(iterable, predicate);
+    return iterable => exclude(iterable, predicate, options);
 }
 
 export const asyncExcludeFn = exclude;
 
 export function excludeNull<T>(
-    iterable: AsyncIterableLike<T | null | undefined>
+    iterable: AsyncIterableLike<T | null | undefined>,
+    options: SignalOptions = {}
 ): AsyncIterable<T> {
-    return filter(iterable, isNotNull);
+    return filter(iterable, isNotNull, options);
 }
 
 export const asyncExcludeNull = excludeNull;
 
 export async function* excludeFirst<T>(
     iterable: AsyncIterableLike<T>,
-    predicate: (element: T, index: number) => boolean | Promise<boolean>
+    predicate: (element: T, index: number) => boolean | Promise<boolean>,
+    options: SignalOptions = {}
 ): AsyncIterable<T> {
-    const iterator = asyncIterator(iterable);
-    let element = await iterator.next();
-
-    for (let i = 0; element.done !== true; ++i) {
-        if (await predicate(element.value, i)) {
-            break;
+    const iterator = asyncIterator(abortable(iterable, options));
+    try {
+        let element = await iterator.next();
+
+        for (let i = 0; element.done !== true; ++i) {
+            if (await predicate(element.value, i)) {
+                break;
+            }
+            yield element.value;
+            element = await iterator.next();
         }
-        yield element.value;
-        element = await iterator.next();
-    }
 
-    if (element.done !== true) {
-        element = await iterator.next();
-    }
+        if (element.done !== true) {
+            element = await iterator.next();
+        }
 
-    while (element.done !== true) {
-        yield element.value;
-        element = await iterator.next();
+        while (element.done !== true) {
+            yield element.value;
+            element = await iterator.next();
+        }
+    } finally {
+        await closeIterator(iterator);
     }
 }
 
 export const asyncExcludeFirst = excludeFirst;
 
 export function excludeFirstFn<T>(
-    predicate: (element: T, index: number) => boolean | Promise<boolean>
+    predicate: (element: T, index: number) => boolean | Promise<boolean>,
+    options: SignalOptions = {}
 ): (iterable: AsyncIterableLike<T>) => AsyncIterable<T> {
-    return iterable => excludeFirst(iterable, predicate);
+    return iterable => excludeFirst(iterable, predicate, options);
 }
 
 export const asyncExcludeFirstFn = excludeFirstFn;
 
-export function remove<T>(iterable: AsyncIterableLike<T>, value: T): AsyncIterable<T> {
-    return exclude(iterable, element => element === value);
+export function remove<T>(
+    iterable: AsyncIterableLike<T>,
+    value: T,
+    options: SignalOptions = {}
+): AsyncIterable<T> {
+    return exclude(iterable, element => element === value, options);
 }
 
 export const asyncRemove = remove;
 
-export function removeFn<T>(value: T): (iterable: AsyncIterableLike<T>) => AsyncIterable<T> {
-    return iterable => remove(iterable, value);
+export function removeFn<T>(
+    value: T,
+    options: SignalOptions = {}
+): (iterable: AsyncIterableLike<T>) => AsyncIterable<T> {
+    return iterable => remove(iterable, value, options);
 }
 
 export const asyncRemoveFn = removeFn;
 
-export function removeFirst<T>(iterable: AsyncIterableLike<T>, value: T): AsyncIterable<T> {
-    return excludeFirst(iterable, element => element === value);
+export function removeFirst<T>(
+    iterable: AsyncIterableLike<T>,
+    value: T,
+    options: SignalOptions = {}
+): AsyncIterable<T> {
+    return excludeFirst(iterable, element => element === value, options);
 }
 
 export const asyncRemoveFirst = removeFirst;
 
-export function removeFirstFn<T>(value: T): (iterable: AsyncIterableLike<T>) => AsyncIterable<T> {
-    return iterable => removeFirst(iterable, value);
+export function removeFirstFn<T>(
+    value: T,
+    options: SignalOptions = {}
+): (iterable: AsyncIterableLike<T>) => AsyncIterable<T> {
+    return iterable => removeFirst(iterable, value, options);
 }
 
 export const asyncRemoveFirstFn = removeFirstFn;
@@ -563,11 +970,12 @@ export const asyncRemoveFirstFn = removeFirstFn;
 export async function fold<T, U>(
     iterable: AsyncIterableLike<T>,
     f: (accumulator: U, element: T, index: number) => U | Promise<U>,
-    initial: U
+    initial: U,
+    options: SignalOptions = {}
 ): Promise<U> {
     let accumulator = initial;
     let i = 0;
-    for await (const element of await iterable) {
+    for await (const element of await abortable(iterable, options)) {
         accumulator = await f(accumulator, element, i++);
     }
     return accumulator;
@@ -577,52 +985,63 @@ export const asyncFold = fold;
 
 export function foldFn<T, U>(
     f: (accumulator: U, element: T, index: number) => U | Promise<U>,
-    initial: U
+    initial: U,
+    options: SignalOptions = {}
 ): (iterable: AsyncIterableLike<T>) => Promise<U> {
-    return async iterable => fold(iterable, f, initial);
+    return async iterable => fold(iterable, f, initial, options);
 }
 
 export const asyncFoldFn = foldFn;
 
 export async function fold1<T>(
     iterable: AsyncIterableLike<T>,
-    f: (accumulator: T, element: T, index: number) => T | Promise<T>
+    f: (accumulator: T, element: T, index: number) => T | Promise<T>,
+    options: SignalOptions = {}
 ): Promise<T> {
-    const iterator = asyncIterator(iterable);
-    let element = await iterator.next();
+    const iterator = asyncIterator(abortable(iterable, options));
+    try {
+        let element = await iterator.next();
 
-    if (element.done === true) {
-        throw new TypeError("fold1: empty AsyncIterable");
-    }
+        if (element.done === true) {
+            throw new TypeError("fold1: empty AsyncIterable");
+        }
 
-    let accumulator = element.value;
-    let i = 1;
-    element = await iterator.next();
-    while (element.done !== true) {
-        accumulator = await f(accumulator, element.value, i++);
+        let accumulator = element.value;
+        let i = 1;
         element = await iterator.next();
-    }
+        while (element.done !== true) {
+            accumulator = await f(accumulator, element.value, i++);
+            element = await iterator.next();
+        }
 
-    return accumulator;
+        return accumulator;
+    } finally {
+        await closeIterator(iterator);
+    }
 }
 
 export const asyncFold1 = fold1;
 
 export function fold1Fn<T>(
-    f: (accumulator: T, element: T, index: number) => T | Promise<T>
+    f: (accumulator: T, element: T, index: number) => T | Promise<T>,
+    options: SignalOptions = {}
 ): (iterable: AsyncIterableLike<T>) => Promise<T> {
-    return async iterable => fold1(iterable, f);
+    return async iterable => fold1(iterable, f, options);
 }
 
 export const asyncFold1Fn = fold1Fn;
 
-export async function index<T>(iterable: AsyncIterableLike<T>, index: number): Promise<T | null> {
+export async function index<T>(
+    iterable: AsyncIterableLike<T>,
+    index: number,
+    options: SignalOptions = {}
+): Promise<T | null> {
     if (index < 0 || !isFinite(index) || Math.floor(index) !== index) {
         throw new RangeError("illegal index");
     }
 
     let i = 0;
-    for await (const element of await iterable) {
+    for await (const element of await abortable(iterable, options)) {
         if (i++ === index) {
             return element;
         }
@@ -632,14 +1051,21 @@ export async function index<T>(iterable: AsyncIterableLike<T>, index: number): P
 
 export const asyncIndex = index;
 
-export function indexFn<T>(index: number): (iterable: AsyncIterableLike<T>) => Promise<T | null> {
-    return async iterable => asyncIndex(iterable, index);
+export function indexFn<T>(
+    index: number,
+    options: SignalOptions = {}
+): (iterable: AsyncIterableLike<T>) => Promise<T | null> {
+    return async iterable => asyncIndex(iterable, index, options);
 }
 
 export const asyncIndexFn = indexFn;
 
-export async function contains<T>(iterable: AsyncIterableLike<T>, value: T): Promise<boolean> {
-    for await (const element of await iterable) {
+export async function contains<T>(
+    iterable: AsyncIterableLike<T>,
+    value: T,
+    options: SignalOptions = {}
+): Promise<boolean> {
+    for await (const element of await abortable(iterable, options)) {
         if (element === value) {
             return true;
         }
@@ -649,15 +1075,22 @@ export async function contains<T>(iterable: AsyncIterableLike<T>, value: T): Pro
 
 export const asyncContains = contains;
 
-export function containsFn<T>(value: T): (iterable: AsyncIterableLike<T>) => Promise<boolean> {
-    return async iterable => contains(iterable, value);
+export function containsFn<T>(
+    value: T,
+    options: SignalOptions = {}
+): (iterable: AsyncIterableLike<T>) => Promise<boolean> {
+    return async iterable => contains(iterable, value, options);
 }
 
 export const asyncContainsFn = containsFn;
 
-export async function indexOf<T>(iterable: AsyncIterableLike<T>, value: T): Promise<number | null> {
+export async function indexOf<T>(
+    iterable: AsyncIterableLike<T>,
+    value: T,
+    options: SignalOptions = {}
+): Promise<number | null> {
     let i = 0;
-    for await (const element of await iterable) {
+    for await (const element of await abortable(iterable, options)) {
         if (element === value) {
             return i;
         }
@@ -668,18 +1101,22 @@ export async function indexOf<T>(iterable: AsyncIterableLike<T>, value: T): Prom
 
 export const asyncIndexOf = indexOf;
 
-export function indexOfFn<T>(value: T): (iterable: AsyncIterableLike<T>) => Promise<number | null> {
-    return async iterable => indexOf(iterable, value);
+export function indexOfFn<T>(
+    value: T,
+    options: SignalOptions = {}
+): (iterable: AsyncIterableLike<T>) => Promise<number | null> {
+    return async iterable => indexOf(iterable, value, options);
 }
 
 export const asyncIndexOfFn = indexOfFn;
 
 export async function findIndex<T>(
     iterable: AsyncIterableLike<T>,
-    predicate: (element: T, index: number) => boolean | Promise<boolean>
+    predicate: (element: T, index: number) => boolean | Promise<boolean>,
+    options: SignalOptions = {}
 ): Promise<number | null> {
     let i = 0;
-    for await (const element of await iterable) {
+    for await (const element of await abortable(iterable, options)) {
         if (await predicate(element, i)) {
             return i;
         }
@@ -691,27 +1128,31 @@ export async function findIndex<T>(
 export const asyncFindIndex = findIndex;
 
 export function findIndexFn<T>(
-    predicate: (element: T, index: number) => boolean | Promise<boolean>
+    predicate: (element: T, index: number) => boolean | Promise<boolean>,
+    options: SignalOptions = {}
 ): (iterable: AsyncIterableLike<T>) => Promise<number | null> {
-    return async iterable => findIndex(iterable, predicate);
+    return async iterable => findIndex(iterable, predicate, options);
 }
 
 export const asyncFindIndexFn = findIndexFn;
 
 export async function find<T, U extends T>(
     iterable: AsyncIterableLike<T>,
-    predicate: (element: T, index: number) => element is U
+    predicate: (element: T, index: number) => element is U,
+    options?: SignalOptions
 ): Promise<U | null>;
 export async function find<T>(
     iterable: AsyncIterableLike<T>,
-    predicate: (element: T, index: number) => boolean | Promise<boolean>
+    predicate: (element: T, index: number) => boolean | Promise<boolean>,
+    options?: SignalOptions
 ): Promise<T | null>;
 export async function find<T>(
     iterable: AsyncIterableLike<T>,
-    predicate: (element: T, index: number) => boolean | Promise<boolean>
+    predicate: (element: T, index: number) => boolean | Promise<boolean>,
+    options: SignalOptions = {}
 ): Promise<T | null> {
     let i = 0;
-    for await (const element of await iterable) {
+    for await (const element of await abortable(iterable, options)) {
         if (await predicate(element, i++)) {
             return element;
         }
@@ -722,209 +1163,466 @@ export async function find<T>(
 export const asyncFind = find;
 
 export function findFn<T, U extends T>(
-    predicate: (element: T, index: number) => element is U
+    predicate: (element: T, index: number) => element is U,
+    options?: SignalOptions
 ): (iterable: AsyncIterableLike<T>) => Promise<U | null>;
 export function findFn<T>(
-    predicate: (element: T, index: number) => boolean | Promise<boolean>
+    predicate: (element: T, index: number) => boolean | Promise<boolean>,
+    options?: SignalOptions
 ): (iterable: AsyncIterableLike<T>) => Promise<T | null>;
 export function findFn<T>(
-    predicate: (element: T, index: number) => boolean | Promise<boolean>
+    predicate: (element: T, index: number) => boolean | Promise<boolean>,
+    options: SignalOptions = {}
 ): (iterable: AsyncIterableLike<T>) => Promise<T | null> {
-    return async iterable => find(iterable, predicate);
+    return async iterable => find(iterable, predicate, options);
 }
 
 export const asyncFindFn = findFn;
 
 export async function maximum<T extends string | number | boolean>(
-    iterable: AsyncIterableLike<T>
+    iterable: AsyncIterableLike<T>,
+    compare?: Comparator<T>,
+    options?: SignalOptions
 ): Promise<T | null>;
 export async function maximum<T>(
     iterable: AsyncIterableLike<T>,
-    compare: Comparator<T>
+    compare: Comparator<T>,
+    options?: SignalOptions
 ): Promise<T | null>;
 export async function maximum<T>(
     iterable: AsyncIterableLike<T>,
-    compare?: Comparator<T>
+    compare?: Comparator<T>,
+    options: SignalOptions = {}
 ): Promise<T | null> {
-    return internalMaximum(iterable, compare ?? (defaultCompare as unknown as Comparator<T>));
+    return internalMaximum(
+        iterable,
+        compare ?? (defaultCompare as unknown as Comparator<T>),
+        options
+    );
 }
 
 export const asyncMaximum = maximum;
 
 export function maximumFn<T>(
-    compare: Comparator<T>
+    compare: Comparator<T>,
+    options: SignalOptions = {}
 ): (iterable: AsyncIterableLike<T>) => Promise<T | null> {
-    return async iterable => maximum(iterable, compare);
+    return async iterable => maximum(iterable, compare, options);
 }
 
 export const asyncMaximumFn = maximumFn;
 
 async function internalMaximum<T>(
     iterable: AsyncIterableLike<T>,
-    compare: Comparator<T>
+    compare: Comparator<T>,
+    options: SignalOptions
 ): Promise<T | null> {
-    const iterator = asyncIterator(iterable);
-    let element = await iterator.next();
-
-    if (element.done === true) {
-        return null;
-    }
+    const iterator = asyncIterator(abortable(iterable, options));
+    try {
+        let element = await iterator.next();
 
-    let max = element.value;
-    element = await iterator.next();
-    while (element.done !== true) {
-        if (compare(element.value, max) > Comparison.equal) {
-            max = element.value;
+        if (element.done === true) {
+            return null;
         }
+
+        let max = element.value;
         element = await iterator.next();
-    }
+        while (element.done !== true) {
+            if (compare(element.value, max) > Comparison.equal) {
+                max = element.value;
+            }
+            element = await iterator.next();
+        }
 
-    return max;
+        return max;
+    } finally {
+        await closeIterator(iterator);
+    }
 }
 
 export async function maximumBy<T>(
     iterable: AsyncIterableLike<T>,
-    select: (element: T, index: number) => number | Promise<number>
+    select: (element: T, index: number) => number | Promise<number>,
+    options: SignalOptions = {}
 ): Promise<T | null> {
-    const iterator = asyncIterator(iterable);
-    let element = await iterator.next();
+    const iterator = asyncIterator(abortable(iterable, options));
+    try {
+        let element = await iterator.next();
 
-    if (element.done === true) {
-        return null;
-    }
+        if (element.done === true) {
+            return null;
+        }
 
-    let max = element.value;
-    let maxBy = await select(element.value, 0);
-    let i = 0;
+        let max = element.value;
+        let maxBy = await select(element.value, 0);
+        let i = 0;
 
-    element = await iterator.next();
-    while (element.done !== true) {
-        const by = await select(element.value, i++);
-        if (by > maxBy) {
-            max = element.value;
-            maxBy = by;
-        }
         element = await iterator.next();
-    }
+        while (element.done !== true) {
+            const by = await select(element.value, i++);
+            if (by > maxBy) {
+                max = element.value;
+                maxBy = by;
+            }
+            element = await iterator.next();
+        }
 
-    return max;
+        return max;
+    } finally {
+        await closeIterator(iterator);
+    }
 }
 
 export const asyncMaximumBy = maximumBy;
 
 export function maximumByFn<T>(
-    select: (element: T, index: number) => number | Promise<number>
+    select: (element: T, index: number) => number | Promise<number>,
+    options: SignalOptions = {}
 ): (iterable: AsyncIterableLike<T>) => Promise<T | null> {
-    return async iterable => maximumBy(iterable, select);
+    return async iterable => maximumBy(iterable, select, options);
 }
 
 export const asyncMaximumByFn = maximumByFn;
 
 export async function minimum<T extends string | number | boolean>(
-    iterable: AsyncIterableLike<T>
+    iterable: AsyncIterableLike<T>,
+    compare?: Comparator<T>,
+    options?: SignalOptions
 ): Promise<T | null>;
 export async function minimum<T>(
     iterable: AsyncIterableLike<T>,
-    compare: Comparator<T>
+    compare: Comparator<T>,
+    options?: SignalOptions
 ): Promise<T | null>;
 export async function minimum<T>(
     iterable: AsyncIterableLike<T>,
-    compare?: Comparator<T>
+    compare?: Comparator<T>,
+    options: SignalOptions = {}
 ): Promise<T | null> {
     return internalMaximum(
         iterable,
-        reverse(compare ?? (defaultCompare as unknown as Comparator<T>))
+        reverse(compare ?? (defaultCompare as unknown as Comparator<T>)),
+        options
     );
 }
 
 export const asyncMinimum = minimum;
 
 export function minimumFn<T>(
-    compare: Comparator<T>
+    compare: Comparator<T>,
+    options: SignalOptions = {}
 ): (iterable: AsyncIterableLike<T>) => Promise<T | null> {
-    return async iterable => minimum(iterable, compare);
+    return async iterable => minimum(iterable, compare, options);
 }
 
 export const asyncMinimumFn = minimumFn;
 
 export async function minimumBy<T>(
     iterable: AsyncIterableLike<T>,
-    select: (element: T, index: number) => number | Promise<number>
+    select: (element: T, index: number) => number | Promise<number>,
+    options: SignalOptions = {}
 ): Promise<T | null> {
-    return maximumBy(iterable, async (element, index) => -(await select(element, index)));
+    return maximumBy(iterable, async (element, index) => -(await select(element, index)), options);
 }
 
 export const asyncMinimumBy = minimumBy;
 
 export function minimumByFn<T>(
-    select: (element: T, index: number) => number | Promise<number>
+    select: (element: T, index: number) => number | Promise<number>,
+    options: SignalOptions = {}
 ): (iterable: AsyncIterableLike<T>) => Promise<T | null> {
-    return async iterable => minimumBy(iterable, select);
+    return async iterable => minimumBy(iterable, select, options);
 }
 
 export const asyncMinimumByFn = minimumByFn;
 
-export async function sum(iterable: AsyncIterableLike<number>): Promise<number> {
-    return fold(iterable, (sum, element) => sum + element, 0);
+export async function sort<T extends string | number | boolean>(
+    iterable: AsyncIterableLike<T>,
+    compare?: Comparator<T>,
+    options?: SignalOptions
+): Promise<T[]>;
+export async function sort<T>(
+    iterable: AsyncIterableLike<T>,
+    compare: Comparator<T>,
+    options?: SignalOptions
+): Promise<T[]>;
+export async function sort<T>(
+    iterable: AsyncIterableLike<T>,
+    compare?: Comparator<T>,
+    options: SignalOptions = {}
+): Promise<T[]> {
+    const elements = await toArray(iterable, options);
+    return elements.sort(compare ?? (defaultCompare as unknown as Comparator<T>));
+}
+
+export const asyncSort = sort;
+
+export function sortFn<T>(
+    compare: Comparator<T>,
+    options: SignalOptions = {}
+): (iterable: AsyncIterableLike<T>) => Promise<T[]> {
+    return async iterable => sort(iterable, compare, options);
+}
+
+export const asyncSortFn = sortFn;
+
+export async function sortBy<T>(
+    iterable: AsyncIterableLike<T>,
+    select: (element: T, index: number) => number | Promise<number>,
+    options: SignalOptions = {}
+): Promise<T[]> {
+    const keyed: Array<{readonly element: T; readonly by: number}> = [];
+    let i = 0;
+    for await (const element of await abortable(iterable, options)) {
+        keyed.push({element, by: await select(element, i++)});
+    }
+    return keyed.sort((a, b) => a.by - b.by).map(({element}) => element);
+}
+
+export const asyncSortBy = sortBy;
+
+export function sortByFn<T>(
+    select: (element: T, index: number) => number | Promise<number>,
+    options: SignalOptions = {}
+): (iterable: AsyncIterableLike<T>) => Promise<T[]> {
+    return async iterable => sortBy(iterable, select, options);
+}
+
+export const asyncSortByFn = sortByFn;
+
+export async function largest<T extends string | number | boolean>(
+    iterable: AsyncIterableLike<T>,
+    count: number,
+    compare?: Comparator<T>,
+    options?: SignalOptions
+): Promise<T[]>;
+export async function largest<T>(
+    iterable: AsyncIterableLike<T>,
+    count: number,
+    compare: Comparator<T>,
+    options?: SignalOptions
+): Promise<T[]>;
+export async function largest<T>(
+    iterable: AsyncIterableLike<T>,
+    count: number,
+    compare?: Comparator<T>,
+    options: SignalOptions = {}
+): Promise<T[]> {
+    return internalLargest(
+        "largest",
+        iterable,
+        count,
+        compare ?? (defaultCompare as unknown as Comparator<T>),
+        options
+    );
+}
+
+export const asyncLargest = largest;
+
+export function largestFn<T>(
+    count: number,
+    compare: Comparator<T>,
+    options: SignalOptions = {}
+): (iterable: AsyncIterableLike<T>) => Promise<T[]> {
+    return async iterable => largest(iterable, count, compare, options);
+}
+
+export const asyncLargestFn = largestFn;
+
+export async function smallest<T extends string | number | boolean>(
+    iterable: AsyncIterableLike<T>,
+    count: number,
+    compare?: Comparator<T>,
+    options?: SignalOptions
+): Promise<T[]>;
+export async function smallest<T>(
+    iterable: AsyncIterableLike<T>,
+    count: number,
+    compare: Comparator<T>,
+    options?: SignalOptions
+): Promise<T[]>;
+export async function smallest<T>(
+    iterable: AsyncIterableLike<T>,
+    count: number,
+    compare?: Comparator<T>,
+    options: SignalOptions = {}
+): Promise<T[]> {
+    return internalLargest(
+        "smallest",
+        iterable,
+        count,
+        reverse(compare ?? (defaultCompare as unknown as Comparator<T>)),
+        options
+    );
+}
+
+export const asyncSmallest = smallest;
+
+export function smallestFn<T>(
+    count: number,
+    compare: Comparator<T>,
+    options: SignalOptions = {}
+): (iterable: AsyncIterableLike<T>) => Promise<T[]> {
+    return async iterable => smallest(iterable, count, compare, options);
+}
+
+export const asyncSmallestFn = smallestFn;
+
+interface HeapEntry<T> {
+    readonly element: T;
+    readonly index: number;
+}
+
+async function internalLargest<T>(
+    name: string,
+    iterable: AsyncIterableLike<T>,
+    count: number,
+    compare: Comparator<T>,
+    options: SignalOptions
+): Promise<T[]> {
+    if (count < 0 || (count !== Infinity && Math.floor(count) !== count)) {
+        throw new RangeError(`${name}: illegal count`);
+    }
+
+    const order = (a: HeapEntry<T>, b: HeapEntry<T>): number => {
+        const comparison = compare(a.element, b.element);
+        return comparison === Comparison.equal ? b.index - a.index : comparison;
+    };
+
+    const heap: Array<HeapEntry<T>> = [];
+    let index = 0;
+    for await (const element of await abortable(iterable, options)) {
+        const entry = {element, index: index++};
+        if (heap.length < count) {
+            heap.push(entry);
+            siftUp(heap, heap.length - 1, order);
+        } else if (heap[0] != null && order(entry, heap[0]) > 0) {
+            heap[0] = entry;
+            siftDown(heap, 0, order);
+        }
+    }
+
+    return heap.sort((a, b) => order(b, a)).map(({element}) => element);
+}
+
+function siftUp<T>(heap: T[], index: number, order: (a: T, b: T) => number): void {
+    const entry = heap[index] as T;
+    let i = index;
+    while (i > 0) {
+        const parent = (i - 1) >> 1;
+        const parentEntry = heap[parent] as T;
+        if (order(entry, parentEntry) >= 0) {
+            break;
+        }
+        heap[i] = parentEntry;
+        i = parent;
+    }
+    heap[i] = entry;
+}
+
+function siftDown<T>(heap: T[], index: number, order: (a: T, b: T) => number): void {
+    const entry = heap[index] as T;
+    let i = index;
+    while (i * 2 + 1 < heap.length) {
+        const left = i * 2 + 1;
+        const right = left + 1;
+        let least = left;
+        if (right < heap.length && order(heap[right] as T, heap[left] as T) < 0) {
+            least = right;
+        }
+        const leastEntry = heap[least] as T;
+        if (order(leastEntry, entry) >= 0) {
+            break;
+        }
+        heap[i] = leastEntry;
+        i = least;
+    }
+    heap[i] = entry;
+}
+
+export async function sum(
+    iterable: AsyncIterableLike<number>,
+    options: SignalOptions = {}
+): Promise<number> {
+    return fold(iterable, (sum, element) => sum + element, 0, options);
 }
 
 export const asyncSum = sum;
 
-export async function product(iterable: AsyncIterableLike<number>): Promise<number> {
-    return fold(iterable, (product, element) => product * element, 1);
+export async function product(
+    iterable: AsyncIterableLike<number>,
+    options: SignalOptions = {}
+): Promise<number> {
+    return fold(iterable, (product, element) => product * element, 1, options);
 }
 
 export const asyncProduct = product;
 
-export async function average(iterable: AsyncIterableLike<number>): Promise<number | null> {
+export async function average(
+    iterable: AsyncIterableLike<number>,
+    options: SignalOptions = {}
+): Promise<number | null> {
     const [sum, count] = await fold(
         iterable,
         ([sum], element, index) => [sum + element, index + 1],
-        [0, 0]
+        [0, 0],
+        options
     );
     return count === 0 ? null : sum / count;
 }
 
 export const asyncAverage = average;
 
-export async function and(iterable: AsyncIterableLike<boolean>): Promise<boolean> {
-    return (await findIndex(iterable, element => !element)) == null;
+export async function and(
+    iterable: AsyncIterableLike<boolean>,
+    options: SignalOptions = {}
+): Promise<boolean> {
+    return (await findIndex(iterable, element => !element, options)) == null;
 }
 
 export const asyncAnd = and;
 
-export async function or(iterable: AsyncIterableLike<boolean>): Promise<boolean> {
-    return (await findIndex(iterable, Boolean)) != null;
+export async function or(
+    iterable: AsyncIterableLike<boolean>,
+    options: SignalOptions = {}
+): Promise<boolean> {
+    return (await findIndex(iterable, Boolean, options)) != null;
 }
 
 export const asyncOr = or;
 
 export async function any<T>(
     iterable: AsyncIterableLike<T>,
-    predicate: (element: T, index: number) => boolean | Promise<boolean>
+    predicate: (element: T, index: number) => boolean | Promise<boolean>,
+    options: SignalOptions = {}
 ): Promise<boolean> {
-    return (await findIndex(iterable, predicate)) != null;
+    return (await findIndex(iterable, predicate, options)) != null;
 }
 
 export const asyncAny = any;
 
 export async function all<T>(
     iterable: AsyncIterableLike<T>,
-    predicate: (element: T, index: number) => boolean | Promise<boolean>
+    predicate: (element: T, index: number) => boolean | Promise<boolean>,
+    options: SignalOptions = {}
 ): Promise<boolean> {
     return (
-        (await findIndex(iterable, async (element, index) => !(await predicate(element, index)))) ==
-        null
+        (await findIndex(
+            iterable,
+            async (element, index) => !(await predicate(element, index)),
+            options
+        )) == null
     );
 }
 
 export const asyncAll = all;
 
 export async function* concat<T>(
-    iterables: AsyncIterableLike<AsyncIterableLike<T>>
+    iterables: AsyncIterableLike<AsyncIterableLike<T>>,
+    options: SignalOptions = {}
 ): AsyncIterable<T> {
-    for await (const iterable of await iterables) {
-        for await (const element of iterable) {
+    for await (const iterable of await abortable(iterables, options)) {
+        for await (const element of await abortable(iterable, options)) {
             yield element;
         }
     }
@@ -932,334 +1630,3688 @@ export async function* concat<T>(
 
 export const asyncConcat = concat;
 
-export function prepend<T>(a: AsyncIterableLike<T>): (b: AsyncIterableLike<T>) => AsyncIterable<T> {
-    return b => concat([a, b]);
+export function prepend<T>(
+    a: AsyncIterableLike<T>,
+    options: SignalOptions = {}
+): (b: AsyncIterableLike<T>) => AsyncIterable<T> {
+    return b => concat([a, b], options);
 }
 
 export const asyncPrepend = prepend;
 
-export function append<T>(b: AsyncIterableLike<T>): (a: AsyncIterableLike<T>) => AsyncIterable<T> {
-    return a => concat([a, b]);
+export function append<T>(
+    b: AsyncIterableLike<T>,
+    options: SignalOptions = {}
+): (a: AsyncIterableLike<T>) => AsyncIterable<T> {
+    return a => concat([a, b], options);
 }
 
 export const asyncAppend = append;
 
 export function concatMap<T, U>(
     iterable: AsyncIterableLike<T>,
-    f: (element: T, index: number) => AsyncIterableLike<U>
+    f: (element: T, index: number) => AsyncIterableLike<U>,
+    options: SignalOptions = {}
 ): AsyncIterable<U> {
-    return concat(map(iterable, f));
+    return concat(map(iterable, f), options);
 }
 
 export const asyncConcatMap = concatMap;
 
 export function concatMapFn<T, U>(
-    f: (element: T, index: number) => AsyncIterableLike<U>
+    f: (element: T, index: number) => AsyncIterableLike<U>,
+    options: SignalOptions = {}
 ): (iterable: AsyncIterableLike<T>) => AsyncIterable<U> {
-    return iterable => concatMap(iterable, f);
+    return iterable => concatMap(iterable, f, options);
 }
 
 export const asyncConcatMapFn = concatMapFn;
 
-export async function noneNull<T>(
-    iterable: AsyncIterableLike<T | null | undefined>
-): Promise<T[] | null> {
-    const result: T[] = [];
+export interface MergeOptions extends SignalOptions {
+    readonly concurrency?: number | undefined;
+    readonly failFast?: boolean | undefined;
+}
 
-    for await (const element of await iterable) {
-        if (element == null) {
-            return null;
-        }
-        result.push(element);
+export async function* mergeMap<T, U>(
+    iterable: AsyncIterableLike<T>,
+    f: (element: T, index: number) => AsyncIterableLike<U>,
+    options: MergeOptions = {}
+): AsyncIterable<U> {
+    const concurrency = options.concurrency ?? Infinity;
+
+    if (concurrency < 1 || Math.floor(concurrency) !== concurrency) {
+        throw new RangeError("mergeMap: illegal concurrency");
     }
 
-    return result;
+    yield* mergeInternal(iterable, f, concurrency, options.failFast ?? true, options.signal);
 }
 
-export const asyncNoneNull = noneNull;
+export const asyncMergeMap = mergeMap;
 
-export async function* scan<T, U>(
+export function mergeMapFn<T, U>(
+    f: (element: T, index: number) => AsyncIterableLike<U>,
+    options: MergeOptions = {}
+): (iterable: AsyncIterableLike<T>) => AsyncIterable<U> {
+    return iterable => mergeMap(iterable, f, options);
+}
+
+export const asyncMergeMapFn = mergeMapFn;
+
+interface MergeSource<T> {
+    readonly iterator: AsyncIterator<T>;
+    next: Promise<MergeEvent<never, T>> | null;
+}
+
+type MergeEvent<T, U> =
+    | {readonly source: null; readonly result: Settled<IteratorResult<T>>}
+    | {readonly source: MergeSource<U>; readonly result: Settled<IteratorResult<U>>};
+
+async function* mergeInternal<T, U>(
     iterable: AsyncIterableLike<T>,
-    f: (accumulator: U, element: T, index: number) => U | Promise<U>,
-    initial: U
+    f: (element: T, index: number) => AsyncIterableLike<U>,
+    concurrency: number,
+    failFast: boolean,
+    signal: AbortSignal | undefined
 ): AsyncIterable<U> {
+    const outer = asyncIterator(iterable);
+    let outerNext: Promise<MergeEvent<T, never>> | null = null;
+    let outerDone = false;
+    const sources = new Set<MergeSource<U>>();
+    let error: {readonly reason: unknown} | null = null;
     let i = 0;
-    let accumulator = initial;
-    for await (const element of await iterable) {
-        yield (accumulator = await f(accumulator, element, i++));
+
+    try {
+        while (true) {
+            if (!outerDone && outerNext == null && sources.size < concurrency) {
+                outerNext = settle(async () => outer.next()).then(result => ({
+                    source: null,
+                    result
+                }));
+            }
+
+            const pending: Array<Promise<MergeEvent<T, U>>> = outerNext == null ? [] : [outerNext];
+            for (const source of sources) {
+                source.next ??= settle(async () => source.iterator.next()).then(result => ({
+                    source,
+                    result
+                }));
+                pending.push(source.next);
+            }
+
+            if (pending.length === 0) {
+                if (error != null) {
+                    throw error.reason;
+                }
+                return;
+            }
+
+            const event = await raceAbort(Promise.race(pending), signal);
+            if (event.source == null) {
+                outerNext = null;
+                if (event.result.rejected && !failFast) {
+                    outerDone = true;
+                    error ??= event.result;
+                } else {
+                    const result = unsettle(event.result);
+                    if (result.done === true) {
+                        outerDone = true;
+                    } else {
+                        sources.add({iterator: asyncIterator(f(result.value, i++)), next: null});
+                    }
+                }
+            } else {
+                event.source.next = null;
+                if (event.result.rejected && !failFast) {
+                    sources.delete(event.source);
+                    error ??= event.result;
+                } else {
+                    const result = unsettle(event.result);
+                    if (result.done === true) {
+                        sources.delete(event.source);
+                    } else {
+                        yield result.value;
+                    }
+                }
+            }
+        }
+    } finally {
+        await Promise.all([
+            closeIterator(outer, outerNext != null),
+            ...Array.from(sources, async source =>
+                closeIterator(source.iterator, source.next != null)
+            )
+        ]);
     }
 }
 
-export const asyncScan = scan;
-
-export function scanFn<T, U>(
-    f: (accumulator: U, element: T, index: number) => U | Promise<U>,
-    initial: U
-): (iterable: AsyncIterableLike<T>) => AsyncIterable<U> {
-    return iterable => scan(iterable, f, initial);
+export function merge<T>(
+    iterables: AsyncIterableLike<AsyncIterableLike<T>>,
+    options: MergeOptions = {}
+): AsyncIterable<T> {
+    return mergeMap(iterables, asyncIterable, options);
 }
 
-export const asyncScanFn = scanFn;
+export const asyncMerge = merge;
 
-export async function* scan1<T>(
-    iterable: AsyncIterableLike<T>,
-    f: (accumulator: T, element: T, index: number) => T | Promise<T>
+export async function* race<T>(
+    iterables: AsyncIterableLike<AsyncIterableLike<T>>,
+    options: SignalOptions = {}
 ): AsyncIterable<T> {
-    const iterator = asyncIterator(iterable);
-    let element = await iterator.next();
-
-    if (element.done === true) {
+    const iterators = (await toArray(iterables, options)).map(iterable =>
+        asyncIterator(abortable(iterable, options))
+    );
+    if (iterators.length === 0) {
         return;
     }
 
-    let accumulator = element.value;
-    yield accumulator;
-    let i = 1;
-    element = await iterator.next();
-    while (element.done !== true) {
-        yield (accumulator = await f(accumulator, element.value, i++));
-        element = await iterator.next();
+    const winner = await Promise.race(
+        iterators.map(async iterator => ({
+            iterator,
+            result: await settle(async () => iterator.next())
+        }))
+    );
+
+    await Promise.all(
+        iterators
+            .filter(iterator => iterator !== winner.iterator)
+            .map(async iterator => closeIterator(iterator, true))
+    );
+
+    try {
+        let element = unsettle(winner.result);
+        while (element.done !== true) {
+            yield element.value;
+            element = await winner.iterator.next();
+        }
+    } finally {
+        await closeIterator(winner.iterator);
     }
 }
 
-export const asyncScan1 = scan1;
+export const asyncRace = race;
 
-export function scan1Fn<T>(
-    f: (accumulator: T, element: T, index: number) => T | Promise<T>
-): (iterable: AsyncIterableLike<T>) => AsyncIterable<T> {
-    return iterable => scan1(iterable, f);
-}
+export type TeePolicy = "unbounded" | "backpressure" | "drop";
 
-export async function* pairwise<T>(iterable: AsyncIterableLike<T>): AsyncIterable<readonly [T, T]> {
-    const iterator = asyncIterator(iterable);
-    let prev = await iterator.next();
+export interface TeeOptions extends SignalOptions {
+    readonly policy?: TeePolicy | undefined;
+    readonly bufferSize?: number | undefined;
+}
 
-    if (prev.done === true) {
-        return;
+export function tee<T>(
+    iterable: AsyncIterableLike<T>,
+    n: number,
+    options: TeeOptions = {}
+): ReadonlyArray<AsyncIterable<T>> {
+    const policy = options.policy ?? "unbounded";
+    const bufferSize = options.bufferSize ?? 1;
+
+    if (n < 0 || Math.floor(n) !== n) {
+        throw new RangeError("tee: illegal n");
     }
 
-    let element = await iterator.next();
-    while (element.done !== true) {
-        yield [prev.value, element.value];
-        prev = element;
-        element = await iterator.next();
+    if (bufferSize < 1 || Math.floor(bufferSize) !== bufferSize) {
+        throw new RangeError("tee: illegal bufferSize");
     }
+
+    const subscribe = multicast(iterable, policy, bufferSize, options);
+    return Array.from({length: n}, subscribe);
 }
 
-export function zip<T, U>(
-    a: AsyncIterableLike<T>,
-    b: AsyncIterableLike<U>
-): AsyncIterable<readonly [T, U]> {
-    return zipInternal(a, b);
+export const asyncTee = tee;
+
+export function teeFn<T>(
+    n: number,
+    options: TeeOptions = {}
+): (iterable: AsyncIterableLike<T>) => ReadonlyArray<AsyncIterable<T>> {
+    return iterable => tee(iterable, n, options);
 }
 
-export const asyncZip = zip;
+export const asyncTeeFn = teeFn;
 
-export function zipFn<T, U>(
-    b: AsyncIterableLike<U>
-): (a: AsyncIterableLike<T>) => AsyncIterable<readonly [T, U]> {
-    return a => zip(a, b);
+export function share<T>(
+    iterable: AsyncIterableLike<T>,
+    options: SignalOptions = {}
+): AsyncIterable<T> {
+    const subscribe = multicast(iterable, "unbounded", Infinity, options);
+    return {[Symbol.asyncIterator]: () => subscribe()};
 }
 
-export const asyncZipFn = zipFn;
+export const asyncShare = share;
 
-export function zipStrict<T, U>(
-    a: AsyncIterableLike<T>,
-    b: AsyncIterableLike<U>
-): AsyncIterable<readonly [T, U]> {
-    return zipInternal(a, b, true);
+export function shareFn<T>(
+    options: SignalOptions = {}
+): (iterable: AsyncIterableLike<T>) => AsyncIterable<T> {
+    return iterable => share(iterable, options);
 }
 
-export const asyncZipStrict = zipStrict;
+export const asyncShareFn = shareFn;
 
-export function zipStrictFn<T, U>(
-    b: AsyncIterableLike<U>
-): (a: AsyncIterableLike<T>) => AsyncIterable<readonly [T, U]> {
-    return a => zipStrict(a, b);
+interface Upstream<T> {
+    readonly iterator: AsyncIterator<T>;
+    pulling: Promise<void> | null;
+    final: Settled<undefined> | null;
 }
 
-async function* zipInternal<T, U>(
-    a: AsyncIterableLike<T>,
-    b: AsyncIterableLike<U>,
-    strict = false
-): AsyncIterable<readonly [T, U]> {
-    const ait = asyncIterator(a);
-    const bit = asyncIterator(b);
+function multicast<T>(
+    iterable: AsyncIterableLike<T>,
+    policy: TeePolicy,
+    bufferSize: number,
+    options: SignalOptions
+): () => AsyncIterableIterator<T> {
+    const consumers = new Set<Array<{readonly value: T}>>();
+    const waiters = new Set<() => void>();
+    let upstream: Upstream<T> | null = null;
+
+    const notify = (): void => {
+        for (const waiter of waiters) {
+            waiter();
+        }
+        waiters.clear();
+    };
+
+    const pull = async (current: Upstream<T>): Promise<void> => {
+        current.pulling ??= settle(async () => current.iterator.next()).then(element => {
+            current.pulling = null;
+            if (upstream !== current) {
+                return;
+            }
+
+            if (element.rejected) {
+                current.final = element;
+            } else if (element.value.done === true) {
+                current.final = {rejected: false, value: undefined};
+            } else {
+                for (const queue of consumers) {
+                    if (policy !== "drop" || queue.length < bufferSize) {
+                        queue.push({value: element.value.value});
+                    }
+                }
+            }
+            notify();
+        });
+        return current.pulling;
+    };
+
+    const leave = async (queue: Array<{readonly value: T}>): Promise<void> => {
+        if (!consumers.delete(queue)) {
+            return;
+        }
+        notify();
+        if (consumers.size === 0 && upstream != null) {
+            const {iterator, pulling} = upstream;
+            upstream = null;
+            await closeIterator(iterator, pulling != null);
+        }
+    };
+
+    async function* consume(queue: Array<{readonly value: T}>): AsyncGenerator<T, void, undefined> {
+        try {
+            while (true) {
+                const head = queue.shift();
+                if (head != null) {
+                    notify();
+                    yield head.value;
+                    continue;
+                }
+
+                upstream ??= {
+                    iterator: asyncIterator(abortable(iterable, options)),
+                    pulling: null,
+                    final: null
+                };
+                if (upstream.final != null) {
+                    unsettle(upstream.final);
+                    return;
+                }
+
+                if (
+                    policy === "backpressure" &&
+                    Array.from(consumers).some(other => other.length >= bufferSize)
+                ) {
+                    await raceAbort(
+                        new Promise<void>(resolve => {
+                            waiters.add(resolve);
+                        }),
+                        options.signal
+                    );
+                } else {
+                    await pull(upstream);
+                }
+            }
+        } finally {
+            await leave(queue);
+        }
+    }
+
+    return () => {
+        const queue: Array<{readonly value: T}> = [];
+        consumers.add(queue);
+        const generator = consume(queue);
+        const iterator: AsyncIterableIterator<T> = {
+            [Symbol.asyncIterator]: () => iterator,
+            next: async () => generator.next(),
+            return: async () => {
+                await generator.return();
+                await leave(queue);
+                return {done: true, value: undefined};
+            }
+        };
+        return iterator;
+    };
+}
+
+export interface CacheOptions extends SignalOptions {
+    readonly maxSize?: number | undefined;
+}
+
+export interface CachedAsyncIterable<T> extends AsyncIterable<T> {
+    readonly dispose: () => Promise<void>;
+}
 
-    let ar = await ait.next();
-    let br = await bit.next();
+interface CacheRefetch<T> {
+    readonly iterator: AsyncIterator<T>;
+    position: number;
+}
 
-    while (ar.done !== true && br.done !== true) {
-        yield [ar.value, br.value];
+export function cache<T>(
+    source: AsyncIterableLike<T> | (() => AsyncIterableLike<T>),
+    options: CacheOptions = {}
+): CachedAsyncIterable<T> {
+    const maxSize = options.maxSize ?? Infinity;
 
-        ar = await ait.next();
-        br = await bit.next();
+    if (maxSize < 1 || (maxSize !== Infinity && Math.floor(maxSize) !== maxSize)) {
+        throw new RangeError("cache: illegal maxSize");
     }
 
-    if (strict && (ar.done !== true || br.done !== true)) {
-        throw new RangeError("zipStrict: Iterables have different lengths");
+    const reopen: (() => AsyncIterableLike<T>) | null =
+        typeof source === "function"
+            ? source
+            : Array.isArray(source)
+              ? () => source as ReadonlyArray<T | Promise<T>>
+              : null;
+    const open = (): AsyncIterator<T> =>
+        asyncIterator(abortable(typeof source === "function" ? source() : source, options));
+
+    const elements: T[] = [];
+    let evicted = 0;
+    let iterator: AsyncIterator<T> | null = null;
+    let pulling: Promise<void> | null = null;
+    let final: Settled<undefined> | null = null;
+    let disposed = false;
+
+    const pull = async (): Promise<void> => {
+        const upstream = (iterator ??= open());
+        pulling ??= settle(async () => upstream.next()).then(element => {
+            pulling = null;
+            if (disposed) {
+                return;
+            }
+
+            if (element.rejected) {
+                final = element;
+            } else if (element.value.done === true) {
+                final = {rejected: false, value: undefined};
+            } else {
+                elements.push(element.value.value);
+                if (elements.length > maxSize) {
+                    elements.shift();
+                    ++evicted;
+                }
+            }
+        });
+        return pulling;
+    };
+
+    const refetch = async (refetching: CacheRefetch<T>, index: number): Promise<T> => {
+        while (refetching.position <= index) {
+            const element = await refetching.iterator.next();
+            if (element.done === true) {
+                throw new RangeError("cache: element evicted");
+            }
+            if (refetching.position++ === index) {
+                return element.value;
+            }
+        }
+        throw new RangeError("cache: element evicted");
+    };
+
+    async function* replay(): AsyncIterable<T> {
+        let refetching: CacheRefetch<T> | null = null;
+        try {
+            for (let index = 0; ; ++index) {
+                while (!disposed && final == null && index >= evicted + elements.length) {
+                    await pull();
+                }
+
+                if (disposed) {
+                    throw new Error("cache: disposed");
+                } else if (index < evicted) {
+                    if (reopen == null) {
+                        throw new RangeError("cache: element evicted");
+                    }
+                    refetching ??= {
+                        iterator: asyncIterator(abortable(reopen(), options)),
+                        position: 0
+                    };
+                    yield await refetch(refetching, index);
+                } else {
+                    if (refetching != null) {
+                        const refetched = refetching.iterator;
+                        refetching = null;
+                        await closeIterator(refetched);
+                    }
+                    if (index < evicted + elements.length) {
+                        yield elements[index - evicted] as T;
+                    } else if (final != null) {
+                        unsettle(final);
+                        return;
+                    }
+                }
+            }
+        } finally {
+            if (refetching != null) {
+                await closeIterator(refetching.iterator);
+            }
+        }
     }
+
+    return {
+        [Symbol.asyncIterator]: () => replay()[Symbol.asyncIterator](),
+        dispose: async () => {
+            if (disposed) {
+                return;
+            }
+            disposed = true;
+            elements.length = 0;
+            if (iterator != null && final == null) {
+                await closeIterator(iterator, pulling != null);
+            }
+        }
+    };
 }
 
-export async function keyBy<TKey, TElement>(
-    iterable: AsyncIterableLike<TElement>,
-    f: (element: TElement, index: number) => TKey
-): Promise<Map<TKey, TElement[]>> {
-    const map = new Map<TKey, TElement[]>();
-    let i = 0;
-    for await (const element of await iterable) {
-        const key = f(element, i++);
-        const group = map.get(key) ?? [];
-        group.push(element);
-        map.set(key, group);
+export const asyncCache = cache;
+
+export function cacheFn<T>(
+    options: CacheOptions = {}
+): (source: AsyncIterableLike<T> | (() => AsyncIterableLike<T>)) => CachedAsyncIterable<T> {
+    return source => cache(source, options);
+}
+
+export const asyncCacheFn = cacheFn;
+
+export class OverflowError extends Error {
+    public constructor(message = "Buffer overflow") {
+        super(message);
+        this.name = "OverflowError";
     }
-    return map;
 }
 
-export const asyncKeyBy = keyBy;
+export type OverflowPolicy = "error" | "dropOldest" | "dropNewest" | "unbounded";
 
-export function keyByFn<TKey, TElement>(
-    f: (element: TElement, index: number) => TKey
-): (iterable: AsyncIterableLike<TElement>) => Promise<Map<TKey, TElement[]>> {
-    return async iterable => keyBy(iterable, f);
+export interface EventSourceOptions extends SignalOptions {
+    readonly bufferSize?: number | undefined;
+    readonly overflow?: OverflowPolicy | undefined;
 }
 
-export const asyncKeyByFn = keyByFn;
+export interface EventEmitterLike {
+    readonly on: (event: string | symbol, listener: (...args: unknown[]) => void) => unknown;
+    readonly off: (event: string | symbol, listener: (...args: unknown[]) => void) => unknown;
+}
 
-export async function keyFirstBy<TKey, TElement>(
-    iterable: AsyncIterableLike<TElement>,
-    f: (element: TElement, index: number) => TKey
-): Promise<Map<TKey, TElement>> {
-    const map = new Map<TKey, TElement>();
-    let i = 0;
-    for await (const element of await iterable) {
-        const key = f(element, i++);
-        if (!map.has(key)) {
-            map.set(key, element);
-        }
-    }
-    return map;
+export interface EventEmitterOptions extends EventSourceOptions {
+    readonly errorEvent?: string | symbol | undefined;
+    readonly endEvent?: string | symbol | undefined;
 }
 
-export const asyncKeyFirstBy = keyFirstBy;
+export function fromEventEmitter<T = unknown>(
+    emitter: EventEmitterLike,
+    event: string | symbol,
+    options: EventEmitterOptions = {}
+): AsyncIterable<T> {
+    const errorEvent = options.errorEvent ?? "error";
+    const endEvent = options.endEvent;
+
+    return fromEvents<T>(
+        "fromEventEmitter",
+        handlers => {
+            const next = (value: unknown): void => {
+                handlers.next(value as T);
+            };
+            emitter.on(event, next);
+            emitter.on(errorEvent, handlers.error);
+            if (endEvent != null) {
+                emitter.on(endEvent, handlers.end);
+            }
+
+            return () => {
+                emitter.off(event, next);
+                emitter.off(errorEvent, handlers.error);
+                if (endEvent != null) {
+                    emitter.off(endEvent, handlers.end);
+                }
+            };
+        },
+        options
+    );
+}
 
-export function keyFirstByFn<TKey, TElement>(
-    f: (element: TElement, index: number) => TKey
-): (iterable: AsyncIterableLike<TElement>) => Promise<Map<TKey, TElement>> {
-    return async iterable => keyFirstBy(iterable, f);
+export interface EventTargetLike<T> {
+    readonly addEventListener: (type: string, listener: (event: T) => void) => void;
+    readonly removeEventListener: (type: string, listener: (event: T) => void) => void;
 }
 
-export const asyncKeyFirstByFn = keyFirstByFn;
+export interface EventTargetOptions extends EventSourceOptions {
+    readonly errorType?: string | undefined;
+    readonly endType?: string | undefined;
+}
 
-export async function keyLastBy<TKey, TElement>(
-    iterable: AsyncIterableLike<TElement>,
-    f: (element: TElement, index: number) => TKey
-): Promise<Map<TKey, TElement>> {
-    const map = new Map<TKey, TElement>();
-    let i = 0;
-    for await (const element of await iterable) {
-        map.set(f(element, i++), element);
-    }
-    return map;
+export function fromEventTarget<T>(
+    target: EventTargetLike<T>,
+    type: string,
+    options: EventTargetOptions = {}
+): AsyncIterable<T> {
+    const {errorType, endType} = options;
+
+    return fromEvents<T>(
+        "fromEventTarget",
+        handlers => {
+            target.addEventListener(type, handlers.next);
+            if (errorType != null) {
+                target.addEventListener(errorType, handlers.error);
+            }
+            if (endType != null) {
+                target.addEventListener(endType, handlers.end);
+            }
+
+            return () => {
+                target.removeEventListener(type, handlers.next);
+                if (errorType != null) {
+                    target.removeEventListener(errorType, handlers.error);
+                }
+                if (endType != null) {
+                    target.removeEventListener(endType, handlers.end);
+                }
+            };
+        },
+        options
+    );
 }
 
-export const asyncKeyLastBy = keyLastBy;
+interface Notifier {
+    readonly notify: () => void;
+    readonly wait: () => Promise<void>;
+}
 
-export function keyLastByFn<TKey, TElement>(
-    f: (element: TElement, index: number) => TKey
-): (iterable: AsyncIterableLike<TElement>) => Promise<Map<TKey, TElement>> {
-    return async iterable => keyLastBy(iterable, f);
+function createNotifier(): Notifier {
+    let waiters: Array<() => void> = [];
+    return {
+        notify: () => {
+            const woken = waiters;
+            waiters = [];
+            for (const wake of woken) {
+                wake();
+            }
+        },
+        wait: async () =>
+            new Promise<void>(resolve => {
+                waiters.push(resolve);
+            })
+    };
 }
 
-export const asyncKeyLastByFn = keyLastByFn;
+interface EventHandlers<T> {
+    readonly next: (value: T) => void;
+    readonly error: (reason: unknown) => void;
+    readonly end: () => void;
+}
 
-export async function mapKeyBy<TKey, TElement, TNewElement>(
-    iterable: AsyncIterableLike<TElement>,
-    f: (
-        element: TElement,
-        index: number
-    ) => readonly [TKey, TNewElement] | Promise<readonly [TKey, TNewElement]>
-): Promise<Map<TKey, TNewElement[]>> {
-    const map = new Map<TKey, TNewElement[]>();
-    let i = 0;
-    for await (const element of await iterable) {
-        const [key, value] = await f(element, i++);
-        const group = map.get(key) ?? [];
-        group.push(value);
-        map.set(key, group);
+function fromEvents<T>(
+    name: string,
+    subscribe: (handlers: EventHandlers<T>) => () => void,
+    options: EventSourceOptions
+): AsyncIterable<T> {
+    const bufferSize = options.bufferSize ?? Infinity;
+    const overflow = options.overflow ?? "unbounded";
+
+    if (bufferSize < 1 || (bufferSize !== Infinity && Math.floor(bufferSize) !== bufferSize)) {
+        throw new RangeError(`${name}: illegal bufferSize`);
     }
-    return map;
+
+    const queue: Array<{readonly value: T}> = [];
+    let final: Settled<undefined> | null = null;
+    const {notify, wait: waitForEvent} = createNotifier();
+
+    const unsubscribe = subscribe({
+        next: value => {
+            if (final != null) {
+                return;
+            }
+
+            if (overflow !== "unbounded" && queue.length >= bufferSize) {
+                if (overflow === "error") {
+                    final = {rejected: true, reason: new OverflowError(`${name}: buffer overflow`)};
+                    notify();
+                    return;
+                } else if (overflow === "dropNewest") {
+                    return;
+                } else {
+                    queue.shift();
+                }
+            }
+
+            queue.push({value});
+            notify();
+        },
+        error: reason => {
+            final ??= {rejected: true, reason};
+            notify();
+        },
+        end: () => {
+            final ??= {rejected: false, value: undefined};
+            notify();
+        }
+    });
+
+    const target = options.signal as unknown as AbortSignalTarget | undefined;
+    let subscribed = true;
+    const close = (): void => {
+        if (subscribed) {
+            subscribed = false;
+            unsubscribe();
+            target?.removeEventListener("abort", abort);
+        }
+        notify();
+    };
+    const abort = (): void => {
+        queue.length = 0;
+        final = {rejected: true, reason: target?.reason};
+        close();
+    };
+    if (target?.aborted === true) {
+        abort();
+    } else {
+        target?.addEventListener("abort", abort);
+    }
+
+    const done: IteratorReturnResult<undefined> = {done: true, value: undefined};
+    const iterator: AsyncIterableIterator<T> = {
+        [Symbol.asyncIterator]: () => iterator,
+        next: async () => {
+            let head = queue.shift();
+            while (head == null && final == null) {
+                await waitForEvent();
+                head = queue.shift();
+            }
+
+            if (head != null) {
+                return {done: false, value: head.value};
+            }
+
+            const settled = final ?? {rejected: false, value: undefined};
+            final = {rejected: false, value: undefined};
+            close();
+            unsettle(settled);
+            return done;
+        },
+        return: async () => {
+            queue.length = 0;
+            final = {rejected: false, value: undefined};
+            close();
+            return done;
+        }
+    };
+    return iterator;
 }
 
-export const asyncMapKeyBy = mapKeyBy;
+export interface ChannelOptions extends SignalOptions {
+    readonly capacity?: number | undefined;
+}
 
-export function mapKeyByFn<TKey, TElement, TNewElement>(
-    f: (
-        element: TElement,
-        index: number
-    ) => readonly [TKey, TNewElement] | Promise<readonly [TKey, TNewElement]>
-): (iterable: AsyncIterableLike<TElement>) => Promise<Map<TKey, TNewElement[]>> {
-    return async iterable => mapKeyBy(iterable, f);
+export interface Channel<T> {
+    readonly push: (value: T) => Promise<void>;
+    readonly close: () => void;
+    readonly error: (reason: unknown) => void;
+    readonly iterable: AsyncIterable<T>;
 }
 
-export const asyncMapKeyByFn = mapKeyByFn;
+interface ChannelEntry<T> {
+    readonly value: T;
+    readonly resolve: () => void;
+    readonly reject: (reason: unknown) => void;
+}
 
-export async function mapKeyFirstBy<TKey, TElement, TNewElement>(
-    iterable: AsyncIterableLike<TElement>,
-    f: (
-        element: TElement,
-        index: number
-    ) => readonly [TKey, TNewElement] | Promise<readonly [TKey, TNewElement]>
-): Promise<Map<TKey, TNewElement>> {
-    const map = new Map<TKey, TNewElement>();
-    let i = 0;
-    for await (const element of await iterable) {
-        const [key, value] = await f(element, i++);
-        if (!map.has(key)) {
-            map.set(key, value);
+export function createChannel<T>(options: ChannelOptions = {}): Channel<T> {
+    const capacity = options.capacity ?? 0;
+
+    if (capacity < 0 || (capacity !== Infinity && Math.floor(capacity) !== capacity)) {
+        throw new RangeError("createChannel: illegal capacity");
+    }
+
+    const queue: Array<ChannelEntry<T>> = [];
+    let final: Settled<undefined> | null = null;
+    let detached = false;
+    const {notify, wait: waitForPush} = createNotifier();
+
+    async function* iterate(): AsyncGenerator<T, void, undefined> {
+        try {
+            while (true) {
+                const head = queue.shift();
+                if (head != null) {
+                    head.resolve();
+                    queue[capacity - 1]?.resolve();
+                    yield head.value;
+                } else if (final != null) {
+                    unsettle(final);
+                    return;
+                } else {
+                    await raceAbort(waitForPush(), options.signal);
+                }
+            }
+        } finally {
+            detached = true;
+            for (const entry of queue.splice(0)) {
+                entry.reject(new Error("createChannel: closed"));
+            }
+            notify();
         }
     }
-    return map;
+
+    return {
+        push: async value => {
+            if (final != null || detached) {
+                throw new Error("createChannel: closed");
+            }
+
+            const pushed = new Promise<void>((resolve, reject) => {
+                queue.push({value, resolve, reject});
+            });
+            if (queue.length <= capacity) {
+                queue[queue.length - 1]?.resolve();
+            }
+            notify();
+
+            return raceAbort(pushed, options.signal);
+        },
+        close: () => {
+            final ??= {rejected: false, value: undefined};
+            notify();
+        },
+        error: reason => {
+            final ??= {rejected: true, reason};
+            notify();
+        },
+        iterable: {[Symbol.asyncIterator]: iterate}
+    };
 }
 
-export const asyncMapKeyFirstBy = mapKeyFirstBy;
+export interface Scheduler {
+    readonly now: () => number;
+    readonly sleep: (ms: number, signal?: AbortSignal | undefined) => Promise<void>;
+}
 
-export function mapKeyFirstByFn<TKey, TElement, TNewElement>(
-    f: (
-        element: TElement,
-        index: number
-    ) => readonly [TKey, TNewElement] | Promise<readonly [TKey, TNewElement]>
-): (iterable: AsyncIterableLike<TElement>) => Promise<Map<TKey, TNewElement>> {
-    return async iterable => mapKeyFirstBy(iterable, f);
+export const realTimeScheduler: Scheduler = {
+    now: () => Date.now(),
+    sleep: async (ms, signal) =>
+        new Promise<void>((resolve, reject) => {
+            const target = signal as unknown as AbortSignalTarget | undefined;
+            if (target?.aborted === true) {
+                reject(target.reason);
+                return;
+            }
+
+            const abort = (): void => {
+                clearTimeout(timer);
+                reject(target?.reason);
+            };
+            const timer = setTimeout(() => {
+                target?.removeEventListener("abort", abort);
+                resolve();
+            }, ms);
+            target?.addEventListener("abort", abort);
+        })
+};
+
+interface VirtualTimer {
+    readonly time: number;
+    readonly resolve: () => void;
 }
 
-export const asyncMapKeyFirstByFn = mapKeyFirstByFn;
+export class VirtualScheduler implements Scheduler {
+    private time: number;
+    private readonly timers: VirtualTimer[] = [];
 
-export async function mapKeyLastBy<TKey, TElement, TNewElement>(
-    iterable: AsyncIterableLike<TElement>,
-    f: (
-        element: TElement,
-        index: number
-    ) => readonly [TKey, TNewElement] | Promise<readonly [TKey, TNewElement]>
-): Promise<Map<TKey, TNewElement>> {
-    const map = new Map<TKey, TNewElement>();
-    let i = 0;
-    for await (const element of await iterable) {
-        const [key, value] = await f(element, i++);
-        map.set(key, value);
+    public constructor(start = 0) {
+        this.time = start;
+    }
+
+    public now(): number {
+        return this.time;
+    }
+
+    public async sleep(ms: number, signal?: AbortSignal | undefined): Promise<void> {
+        return new Promise<void>((resolve, reject) => {
+            const target = signal as unknown as AbortSignalTarget | undefined;
+            if (target?.aborted === true) {
+                reject(target.reason);
+                return;
+            }
+
+            const abort = (): void => {
+                const index = this.timers.indexOf(timer);
+                if (index >= 0) {
+                    this.timers.splice(index, 1);
+                }
+                reject(target?.reason);
+            };
+            const timer: VirtualTimer = {
+                time: this.time + Math.max(ms, 0),
+                resolve: () => {
+                    target?.removeEventListener("abort", abort);
+                    resolve();
+                }
+            };
+            this.timers.push(timer);
+            target?.addEventListener("abort", abort);
+        });
+    }
+
+    public async advance(ms: number): Promise<void> {
+        return this.advanceTo(this.time + ms);
+    }
+
+    public async advanceTo(time: number): Promise<void> {
+        if (time < this.time) {
+            throw new RangeError("VirtualScheduler: cannot move time backwards");
+        }
+
+        await settleMacrotask();
+        for (let timer = this.nextTimer(time); timer != null; timer = this.nextTimer(time)) {
+            this.time = timer.time;
+            timer.resolve();
+            await settleMacrotask();
+        }
+        this.time = time;
+    }
+
+    public async run(): Promise<void> {
+        await settleMacrotask();
+        for (
+            let timer = this.nextTimer(Infinity);
+            timer != null;
+            timer = this.nextTimer(Infinity)
+        ) {
+            this.time = timer.time;
+            timer.resolve();
+            await settleMacrotask();
+        }
+    }
+
+    private nextTimer(until: number): VirtualTimer | null {
+        let next: VirtualTimer | null = null;
+        for (const timer of this.timers) {
+            if (timer.time <= until && (next == null || timer.time < next.time)) {
+                next = timer;
+            }
+        }
+
+        if (next != null) {
+            this.timers.splice(this.timers.indexOf(next), 1);
+        }
+        return next;
     }
-    return map;
 }
 
-export const asyncMapKeyLastBy = mapKeyLastBy;
+async function settleMacrotask(): Promise<void> {
+    return new Promise<void>(resolve => {
+        setTimeout(resolve, 0);
+    });
+}
 
-export function mapKeyLastByFn<TKey, TElement, TNewElement>(
-    f: (
-        element: TElement,
-        index: number
-    ) => readonly [TKey, TNewElement] | Promise<readonly [TKey, TNewElement]>
-): (iterable: AsyncIterableLike<TElement>) => Promise<Map<TKey, TNewElement>> {
-    return async iterable => mapKeyLastBy(iterable, f);
+export interface SchedulerOptions extends SignalOptions {
+    readonly scheduler?: Scheduler | undefined;
 }
 
-export const asyncMapKeyLastByFn = mapKeyLastByFn;
+export class TimeoutError extends Error {
+    public constructor(message = "Timed out") {
+        super(message);
+        this.name = "TimeoutError";
+    }
+}
+
+export interface TimeoutOptions extends SchedulerOptions {
+    readonly each?: number | undefined;
+    readonly total?: number | undefined;
+}
+
+export function timeout<T>(
+    iterable: AsyncIterableLike<T>,
+    options: TimeoutOptions
+): AsyncIterable<T> {
+    return timeoutInternal(iterable, null, options);
+}
+
+export const asyncTimeout = timeout;
+
+export function timeoutFn<T>(
+    options: TimeoutOptions
+): (iterable: AsyncIterableLike<T>) => AsyncIterable<T> {
+    return iterable => timeout(iterable, options);
+}
+
+export const asyncTimeoutFn = timeoutFn;
+
+export function timeoutWith<T>(
+    iterable: AsyncIterableLike<T>,
+    fallback: AsyncIterableLike<T>,
+    options: TimeoutOptions
+): AsyncIterable<T> {
+    return timeoutInternal(iterable, fallback, options);
+}
+
+export const asyncTimeoutWith = timeoutWith;
+
+export function timeoutWithFn<T>(
+    fallback: AsyncIterableLike<T>,
+    options: TimeoutOptions
+): (iterable: AsyncIterableLike<T>) => AsyncIterable<T> {
+    return iterable => timeoutWith(iterable, fallback, options);
+}
+
+export const asyncTimeoutWithFn = timeoutWithFn;
+
+async function* timeoutInternal<T>(
+    iterable: AsyncIterableLike<T>,
+    fallback: AsyncIterableLike<T> | null,
+    options: TimeoutOptions
+): AsyncIterable<T> {
+    const each = options.each ?? Infinity;
+    const total = options.total ?? Infinity;
+    const scheduler = options.scheduler ?? realTimeScheduler;
+    const start = scheduler.now();
+    const iterator = sourceIterator(iterable);
+    let busy = false;
+
+    try {
+        while (true) {
+            busy = true;
+            const element = await raceAbort(
+                raceTimer(
+                    iterator.next(),
+                    Math.min(each, start + total - scheduler.now()),
+                    scheduler
+                ),
+                options.signal
+            );
+            if (element == null) {
+                break;
+            }
+            busy = false;
+
+            if (element.value.done === true) {
+                return;
+            }
+            yield element.value.value;
+        }
+    } finally {
+        await closeIterator(iterator, busy);
+    }
+
+    if (fallback == null) {
+        throw new TimeoutError("timeout: Timed out waiting for next element");
+    }
+
+    for await (const element of await abortable(fallback, options)) {
+        yield element;
+    }
+}
+
+export async function* catchError<T, U = T>(
+    iterable: AsyncIterableLike<T>,
+    handler: (reason: unknown) => AsyncIterableLike<U> | Promise<AsyncIterableLike<U>>,
+    options: SignalOptions = {}
+): AsyncIterable<T | U> {
+    const iterator = asyncIterator(abortable(iterable, options));
+    let replacement: AsyncIterableLike<U> | null = null;
+
+    try {
+        while (replacement == null) {
+            const element = await settle(async () => iterator.next());
+            if (element.rejected) {
+                if (options.signal?.aborted === true) {
+                    throw element.reason;
+                }
+                replacement = await handler(element.reason);
+            } else if (element.value.done === true) {
+                return;
+            } else {
+                yield element.value.value;
+            }
+        }
+    } finally {
+        await closeIterator(iterator);
+    }
+
+    for await (const element of await abortable(replacement, options)) {
+        yield element;
+    }
+}
+
+export const asyncCatchError = catchError;
+
+export function catchErrorFn<T, U = T>(
+    handler: (reason: unknown) => AsyncIterableLike<U> | Promise<AsyncIterableLike<U>>,
+    options: SignalOptions = {}
+): (iterable: AsyncIterableLike<T>) => AsyncIterable<T | U> {
+    return iterable => catchError(iterable, handler, options);
+}
+
+export const asyncCatchErrorFn = catchErrorFn;
+
+export async function* onErrorResume<T>(
+    iterables: AsyncIterableLike<AsyncIterableLike<T>>,
+    options: SignalOptions = {}
+): AsyncIterable<T> {
+    for await (const iterable of await abortable(iterables, options)) {
+        yield* catchError<T, never>(iterable, () => [], options);
+    }
+}
+
+export const asyncOnErrorResume = onErrorResume;
+
+export interface RetryOptions extends SchedulerOptions {
+    readonly attempts?: number | undefined;
+    readonly backoff?: number | ((attempt: number) => number) | undefined;
+    readonly jitter?: number | undefined;
+    readonly shouldRetry?:
+        ((reason: unknown, attempt: number) => boolean | Promise<boolean>) | undefined;
+    readonly skipYielded?: boolean | undefined;
+}
+
+export async function* retry<T>(
+    factory: (attempt: number) => AsyncIterableLike<T>,
+    options: RetryOptions = {}
+): AsyncIterable<T> {
+    const attempts = options.attempts ?? 3;
+    const backoff = options.backoff ?? 0;
+    const jitter = options.jitter ?? 0;
+    const shouldRetry = options.shouldRetry ?? (() => true);
+    const scheduler = options.scheduler ?? realTimeScheduler;
+
+    if (attempts < 1 || (attempts !== Infinity && Math.floor(attempts) !== attempts)) {
+        throw new RangeError("retry: illegal attempts");
+    }
+
+    if (isNaN(jitter) || jitter < 0 || jitter > 1) {
+        throw new RangeError("retry: illegal jitter");
+    }
+
+    let yielded = 0;
+    for (let attempt = 1; ; ++attempt) {
+        const iterator = asyncIterator(abortable(factory(attempt), options));
+        let skip = options.skipYielded === true ? yielded : 0;
+        let failure: {readonly reason: unknown} | null = null;
+
+        try {
+            while (failure == null) {
+                const element = await settle(async () => iterator.next());
+                if (element.rejected) {
+                    failure = {reason: element.reason};
+                } else if (element.value.done === true) {
+                    return;
+                } else if (skip > 0) {
+                    --skip;
+                } else {
+                    ++yielded;
+                    yield element.value.value;
+                }
+            }
+        } finally {
+            await closeIterator(iterator);
+        }
+
+        if (
+            attempt >= attempts ||
+            options.signal?.aborted === true ||
+            !(await shouldRetry(failure.reason, attempt))
+        ) {
+            throw failure.reason;
+        }
+
+        const delay = typeof backoff === "number" ? backoff : backoff(attempt);
+        await scheduler.sleep(delay * (1 + jitter * (Math.random() * 2 - 1)), options.signal);
+    }
+}
+
+export const asyncRetry = retry;
+
+export function debounce<T>(
+    iterable: AsyncIterableLike<T>,
+    ms: number,
+    options: SchedulerOptions = {}
+): AsyncIterable<T> {
+    return auditInternal(iterable, ms, true, options);
+}
+
+export const asyncDebounce = debounce;
+
+export function debounceFn<T>(
+    ms: number,
+    options: SchedulerOptions = {}
+): (iterable: AsyncIterableLike<T>) => AsyncIterable<T> {
+    return iterable => debounce(iterable, ms, options);
+}
+
+export const asyncDebounceFn = debounceFn;
+
+export function audit<T>(
+    iterable: AsyncIterableLike<T>,
+    ms: number,
+    options: SchedulerOptions = {}
+): AsyncIterable<T> {
+    return auditInternal(iterable, ms, false, options);
+}
+
+export const asyncAudit = audit;
+
+export function auditFn<T>(
+    ms: number,
+    options: SchedulerOptions = {}
+): (iterable: AsyncIterableLike<T>) => AsyncIterable<T> {
+    return iterable => audit(iterable, ms, options);
+}
+
+export const asyncAuditFn = auditFn;
+
+async function* auditInternal<T>(
+    iterable: AsyncIterableLike<T>,
+    ms: number,
+    restart: boolean,
+    options: SchedulerOptions
+): AsyncIterable<T> {
+    const scheduler = options.scheduler ?? realTimeScheduler;
+    const iterator = asyncIterator(abortable(iterable, options));
+    let next: Promise<IteratorResult<T>> | null = null;
+    let latest: {readonly value: T} | null = null;
+    let deadline = Infinity;
+
+    try {
+        while (true) {
+            next ??= iterator.next();
+            const element = await raceTimer(next, deadline - scheduler.now(), scheduler);
+
+            if (element == null) {
+                deadline = Infinity;
+                if (latest != null) {
+                    const {value} = latest;
+                    latest = null;
+                    yield value;
+                }
+                continue;
+            }
+
+            next = null;
+            if (element.value.done === true) {
+                break;
+            }
+
+            if (restart || latest == null) {
+                deadline = scheduler.now() + ms;
+            }
+            latest = {value: element.value.value};
+        }
+
+        if (latest != null) {
+            yield latest.value;
+        }
+    } finally {
+        await closeIterator(iterator, next != null);
+    }
+}
+
+export interface ThrottleOptions extends SchedulerOptions {
+    readonly leading?: boolean | undefined;
+    readonly trailing?: boolean | undefined;
+}
+
+export async function* throttle<T>(
+    iterable: AsyncIterableLike<T>,
+    ms: number,
+    options: ThrottleOptions = {}
+): AsyncIterable<T> {
+    const leading = options.leading ?? true;
+    const trailing = options.trailing ?? false;
+    const scheduler = options.scheduler ?? realTimeScheduler;
+    const iterator = asyncIterator(abortable(iterable, options));
+    let next: Promise<IteratorResult<T>> | null = null;
+    let pending: {readonly value: T} | null = null;
+    let windowEnd = -Infinity;
+
+    try {
+        while (true) {
+            if (pending != null && windowEnd <= scheduler.now()) {
+                const {value} = pending;
+                pending = null;
+                windowEnd = scheduler.now() + ms;
+                yield value;
+                continue;
+            }
+
+            next ??= iterator.next();
+            const wait: number = pending == null ? Infinity : windowEnd - scheduler.now();
+            const element = await raceTimer(next, wait, scheduler);
+
+            if (element == null) {
+                continue;
+            }
+
+            next = null;
+            if (element.value.done === true) {
+                break;
+            }
+
+            if (windowEnd <= scheduler.now()) {
+                windowEnd = scheduler.now() + ms;
+                if (leading) {
+                    yield element.value.value;
+                    continue;
+                }
+            }
+
+            if (trailing) {
+                pending = {value: element.value.value};
+            }
+        }
+
+        if (pending != null) {
+            yield pending.value;
+        }
+    } finally {
+        await closeIterator(iterator, next != null);
+    }
+}
+
+export const asyncThrottle = throttle;
+
+export function throttleFn<T>(
+    ms: number,
+    options: ThrottleOptions = {}
+): (iterable: AsyncIterableLike<T>) => AsyncIterable<T> {
+    return iterable => throttle(iterable, ms, options);
+}
+
+export const asyncThrottleFn = throttleFn;
+
+export async function* sample<T>(
+    iterable: AsyncIterableLike<T>,
+    ms: number,
+    options: SchedulerOptions = {}
+): AsyncIterable<T> {
+    const scheduler = options.scheduler ?? realTimeScheduler;
+    const iterator = asyncIterator(abortable(iterable, options));
+    let next: Promise<IteratorResult<T>> | null = null;
+    let latest: {readonly value: T} | null = null;
+    let tick = scheduler.now() + ms;
+
+    try {
+        while (true) {
+            next ??= iterator.next();
+            const element = await raceTimer(next, tick - scheduler.now(), scheduler);
+
+            if (element == null) {
+                while (tick <= scheduler.now()) {
+                    tick += ms;
+                }
+                if (latest != null) {
+                    const {value} = latest;
+                    latest = null;
+                    yield value;
+                }
+                continue;
+            }
+
+            next = null;
+            if (element.value.done === true) {
+                break;
+            }
+            latest = {value: element.value.value};
+        }
+
+        if (latest != null) {
+            yield latest.value;
+        }
+    } finally {
+        await closeIterator(iterator, next != null);
+    }
+}
+
+export const asyncSample = sample;
+
+export function sampleFn<T>(
+    ms: number,
+    options: SchedulerOptions = {}
+): (iterable: AsyncIterableLike<T>) => AsyncIterable<T> {
+    return iterable => sample(iterable, ms, options);
+}
+
+export const asyncSampleFn = sampleFn;
+
+async function raceTimer<T>(
+    promise: Promise<T>,
+    ms: number,
+    scheduler: Scheduler
+): Promise<{readonly value: T} | null> {
+    if (ms === Infinity) {
+        return {value: await promise};
+    }
+
+    const controller = new AbortController();
+    try {
+        return await Promise.race([
+            promise.then(value => ({value})),
+            scheduler.sleep(Math.max(ms, 0), controller.signal).then(() => null)
+        ]);
+    } finally {
+        controller.abort();
+    }
+}
+
+export async function noneNull<T>(
+    iterable: AsyncIterableLike<T | null | undefined>,
+    options: SignalOptions = {}
+): Promise<T[] | null> {
+    const result: T[] = [];
+
+    for await (const element of await abortable(iterable, options)) {
+        if (element == null) {
+            return null;
+        }
+        result.push(element);
+    }
+
+    return result;
+}
+
+export const asyncNoneNull = noneNull;
+
+export async function* scan<T, U>(
+    iterable: AsyncIterableLike<T>,
+    f: (accumulator: U, element: T, index: number) => U | Promise<U>,
+    initial: U,
+    options: SignalOptions = {}
+): AsyncIterable<U> {
+    let i = 0;
+    let accumulator = initial;
+    for await (const element of await abortable(iterable, options)) {
+        yield (accumulator = await f(accumulator, element, i++));
+    }
+}
+
+export const asyncScan = scan;
+
+export function scanFn<T, U>(
+    f: (accumulator: U, element: T, index: number) => U | Promise<U>,
+    initial: U,
+    options: SignalOptions = {}
+): (iterable: AsyncIterableLike<T>) => AsyncIterable<U> {
+    return iterable => scan(iterable, f, initial, options);
+}
+
+export const asyncScanFn = scanFn;
+
+export async function* scan1<T>(
+    iterable: AsyncIterableLike<T>,
+    f: (accumulator: T, element: T, index: number) => T | Promise<T>,
+    options: SignalOptions = {}
+): AsyncIterable<T> {
+    const iterator = asyncIterator(abortable(iterable, options));
+    try {
+        let element = await iterator.next();
+
+        if (element.done === true) {
+            return;
+        }
+
+        let accumulator = element.value;
+        yield accumulator;
+        let i = 1;
+        element = await iterator.next();
+        while (element.done !== true) {
+            yield (accumulator = await f(accumulator, element.value, i++));
+            element = await iterator.next();
+        }
+    } finally {
+        await closeIterator(iterator);
+    }
+}
+
+export const asyncScan1 = scan1;
+
+export function scan1Fn<T>(
+    f: (accumulator: T, element: T, index: number) => T | Promise<T>,
+    options: SignalOptions = {}
+): (iterable: AsyncIterableLike<T>) => AsyncIterable<T> {
+    return iterable => scan1(iterable, f, options);
+}
+
+export async function* chunk<T>(
+    iterable: AsyncIterableLike<T>,
+    size: number,
+    options: SignalOptions = {}
+): AsyncIterable<readonly T[]> {
+    if (size < 1 || Math.floor(size) !== size) {
+        throw new RangeError("chunk: illegal size");
+    }
+
+    let batch: T[] = [];
+    for await (const element of await abortable(iterable, options)) {
+        batch.push(element);
+        if (batch.length >= size) {
+            yield batch;
+            batch = [];
+        }
+    }
+
+    if (batch.length > 0) {
+        yield batch;
+    }
+}
+
+export const asyncChunk = chunk;
+
+export function chunkFn<T>(
+    size: number,
+    options: SignalOptions = {}
+): (iterable: AsyncIterableLike<T>) => AsyncIterable<readonly T[]> {
+    return iterable => chunk(iterable, size, options);
+}
+
+export const asyncChunkFn = chunkFn;
+
+export interface BufferOptions extends SchedulerOptions {
+    readonly maxCount?: number | undefined;
+    readonly maxMs?: number | undefined;
+}
+
+export async function* buffer<T>(
+    iterable: AsyncIterableLike<T>,
+    options: BufferOptions
+): AsyncIterable<readonly T[]> {
+    const maxCount = options.maxCount ?? Infinity;
+    const maxMs = options.maxMs ?? Infinity;
+
+    if (maxCount < 1 || Math.floor(maxCount) !== maxCount) {
+        throw new RangeError("buffer: illegal maxCount");
+    }
+
+    if (isNaN(maxMs) || maxMs <= 0) {
+        throw new RangeError("buffer: illegal maxMs");
+    }
+
+    const scheduler = options.scheduler ?? realTimeScheduler;
+    const iterator = asyncIterator(abortable(iterable, options));
+    let next: Promise<IteratorResult<T>> | null = null;
+    let batch: T[] = [];
+    let deadline = scheduler.now() + maxMs;
+
+    try {
+        while (true) {
+            next ??= iterator.next();
+            const element = await raceTimer(next, deadline - scheduler.now(), scheduler);
+
+            if (element == null) {
+                if (batch.length > 0) {
+                    yield batch;
+                    batch = [];
+                }
+                deadline = scheduler.now() + maxMs;
+                continue;
+            }
+
+            next = null;
+            if (element.value.done === true) {
+                break;
+            }
+
+            batch.push(element.value.value);
+            if (batch.length >= maxCount) {
+                yield batch;
+                batch = [];
+                deadline = scheduler.now() + maxMs;
+            }
+        }
+
+        if (batch.length > 0) {
+            yield batch;
+        }
+    } finally {
+        await closeIterator(iterator, next != null);
+    }
+}
+
+export const asyncBuffer = buffer;
+
+export function bufferFn<T>(
+    options: BufferOptions
+): (iterable: AsyncIterableLike<T>) => AsyncIterable<readonly T[]> {
+    return iterable => buffer(iterable, options);
+}
+
+export const asyncBufferFn = bufferFn;
+
+export function bufferTime<T>(
+    iterable: AsyncIterableLike<T>,
+    ms: number,
+    options: SchedulerOptions = {}
+): AsyncIterable<readonly T[]> {
+    return buffer(iterable, {...options, maxMs: ms});
+}
+
+export const asyncBufferTime = bufferTime;
+
+export function bufferTimeFn<T>(
+    ms: number,
+    options: SchedulerOptions = {}
+): (iterable: AsyncIterableLike<T>) => AsyncIterable<readonly T[]> {
+    return iterable => bufferTime(iterable, ms, options);
+}
+
+export const asyncBufferTimeFn = bufferTimeFn;
+
+export function pairwise<T>(
+    iterable: AsyncIterableLike<T>,
+    options: SignalOptions = {}
+): AsyncIterable<readonly [T, T]> {
+    return windowed(iterable, 2, options) as AsyncIterable<readonly [T, T]>;
+}
+
+export interface WindowedOptions extends SignalOptions {
+    readonly step?: number | undefined;
+    readonly partial?: boolean | undefined;
+}
+
+export async function* windowed<T>(
+    iterable: AsyncIterableLike<T>,
+    size: number,
+    options: WindowedOptions = {}
+): AsyncIterable<readonly T[]> {
+    const step = options.step ?? 1;
+    const partial = options.partial ?? false;
+
+    if (size < 1 || Math.floor(size) !== size) {
+        throw new RangeError("windowed: illegal size");
+    }
+
+    if (step < 1 || Math.floor(step) !== step) {
+        throw new RangeError("windowed: illegal step");
+    }
+
+    const ring = new Array<T>(size);
+    let start = 0;
+    let count = 0;
+    let skip = 0;
+
+    const window = (): readonly T[] => {
+        const window: T[] = [];
+        for (let i = 0; i < count; ++i) {
+            window.push(ring[(start + i) % size] as T);
+        }
+        return window;
+    };
+
+    const advance = (): void => {
+        const n = Math.min(step, count);
+        start = (start + n) % size;
+        count -= n;
+        skip = step - n;
+    };
+
+    for await (const element of await abortable(iterable, options)) {
+        if (skip > 0) {
+            --skip;
+        } else {
+            ring[(start + count++) % size] = element;
+            if (count === size) {
+                yield window();
+                advance();
+            }
+        }
+    }
+
+    while (partial && count > 0) {
+        yield window();
+        advance();
+    }
+}
+
+export const asyncWindowed = windowed;
+
+export function windowedFn<T>(
+    size: number,
+    options: WindowedOptions = {}
+): (iterable: AsyncIterableLike<T>) => AsyncIterable<readonly T[]> {
+    return iterable => windowed(iterable, size, options);
+}
+
+export const asyncWindowedFn = windowedFn;
+
+export function zip<T, U>(
+    a: AsyncIterableLike<T>,
+    b: AsyncIterableLike<U>,
+    options: SignalOptions = {}
+): AsyncIterable<readonly [T, U]> {
+    return zipInternal(a, b, false, options);
+}
+
+export const asyncZip = zip;
+
+export function zipFn<T, U>(
+    b: AsyncIterableLike<U>,
+    options: SignalOptions = {}
+): (a: AsyncIterableLike<T>) => AsyncIterable<readonly [T, U]> {
+    return a => zip(a, b, options);
+}
+
+export const asyncZipFn = zipFn;
+
+export function zipStrict<T, U>(
+    a: AsyncIterableLike<T>,
+    b: AsyncIterableLike<U>,
+    options: SignalOptions = {}
+): AsyncIterable<readonly [T, U]> {
+    return zipInternal(a, b, true, options);
+}
+
+export const asyncZipStrict = zipStrict;
+
+export function zipStrictFn<T, U>(
+    b: AsyncIterableLike<U>,
+    options: SignalOptions = {}
+): (a: AsyncIterableLike<T>) => AsyncIterable<readonly [T, U]> {
+    return a => zipStrict(a, b, options);
+}
+
+async function* zipInternal<T, U>(
+    a: AsyncIterableLike<T>,
+    b: AsyncIterableLike<U>,
+    strict: boolean,
+    options: SignalOptions
+): AsyncIterable<readonly [T, U]> {
+    const ait = asyncIterator(abortable(a, options));
+    const bit = asyncIterator(abortable(b, options));
+
+    try {
+        let ar = await ait.next();
+        let br = await bit.next();
+
+        while (ar.done !== true && br.done !== true) {
+            yield [ar.value, br.value];
+
+            ar = await ait.next();
+            br = await bit.next();
+        }
+
+        if (strict && (ar.done !== true || br.done !== true)) {
+            throw new RangeError("zipStrict: Iterables have different lengths");
+        }
+    } finally {
+        await Promise.all([closeIterator(ait), closeIterator(bit)]);
+    }
+}
+
+export async function keyBy<TKey, TElement>(
+    iterable: AsyncIterableLike<TElement>,
+    f: (element: TElement, index: number) => TKey,
+    options: SignalOptions = {}
+): Promise<Map<TKey, TElement[]>> {
+    const map = new Map<TKey, TElement[]>();
+    let i = 0;
+    for await (const element of await abortable(iterable, options)) {
+        const key = f(element, i++);
+        const group = map.get(key) ?? [];
+        group.push(element);
+        map.set(key, group);
+    }
+    return map;
+}
+
+export const asyncKeyBy = keyBy;
+
+export function keyByFn<TKey, TElement>(
+    f: (element: TElement, index: number) => TKey,
+    options: SignalOptions = {}
+): (iterable: AsyncIterableLike<TElement>) => Promise<Map<TKey, TElement[]>> {
+    return async iterable => keyBy(iterable, f, options);
+}
+
+export const asyncKeyByFn = keyByFn;
+
+export async function keyFirstBy<TKey, TElement>(
+    iterable: AsyncIterableLike<TElement>,
+    f: (element: TElement, index: number) => TKey,
+    options: SignalOptions = {}
+): Promise<Map<TKey, TElement>> {
+    const map = new Map<TKey, TElement>();
+    let i = 0;
+    for await (const element of await abortable(iterable, options)) {
+        const key = f(element, i++);
+        if (!map.has(key)) {
+            map.set(key, element);
+        }
+    }
+    return map;
+}
+
+export const asyncKeyFirstBy = keyFirstBy;
+
+export function keyFirstByFn<TKey, TElement>(
+    f: (element: TElement, index: number) => TKey,
+    options: SignalOptions = {}
+): (iterable: AsyncIterableLike<TElement>) => Promise<Map<TKey, TElement>> {
+    return async iterable => keyFirstBy(iterable, f, options);
+}
+
+export const asyncKeyFirstByFn = keyFirstByFn;
+
+export async function keyLastBy<TKey, TElement>(
+    iterable: AsyncIterableLike<TElement>,
+    f: (element: TElement, index: number) => TKey,
+    options: SignalOptions = {}
+): Promise<Map<TKey, TElement>> {
+    const map = new Map<TKey, TElement>();
+    let i = 0;
+    for await (const element of await abortable(iterable, options)) {
+        map.set(f(element, i++), element);
+    }
+    return map;
+}
+
+export const asyncKeyLastBy = keyLastBy;
+
+export function keyLastByFn<TKey, TElement>(
+    f: (element: TElement, index: number) => TKey,
+    options: SignalOptions = {}
+): (iterable: AsyncIterableLike<TElement>) => Promise<Map<TKey, TElement>> {
+    return async iterable => keyLastBy(iterable, f, options);
+}
+
+export const asyncKeyLastByFn = keyLastByFn;
+
+export async function mapKeyBy<TKey, TElement, TNewElement>(
+    iterable: AsyncIterableLike<TElement>,
+    f: (
+        element: TElement,
+        index: number
+    ) => readonly [TKey, TNewElement] | Promise<readonly [TKey, TNewElement]>,
+    options: SignalOptions = {}
+): Promise<Map<TKey, TNewElement[]>> {
+    const map = new Map<TKey, TNewElement[]>();
+    let i = 0;
+    for await (const element of await abortable(iterable, options)) {
+        const [key, value] = await f(element, i++);
+        const group = map.get(key) ?? [];
+        group.push(value);
+        map.set(key, group);
+    }
+    return map;
+}
+
+export const asyncMapKeyBy = mapKeyBy;
+
+export function mapKeyByFn<TKey, TElement, TNewElement>(
+    f: (
+        element: TElement,
+        index: number
+    ) => readonly [TKey, TNewElement] | Promise<readonly [TKey, TNewElement]>,
+    options: SignalOptions = {}
+): (iterable: AsyncIterableLike<TElement>) => Promise<Map<TKey, TNewElement[]>> {
+    return async iterable => mapKeyBy(iterable, f, options);
+}
+
+export const asyncMapKeyByFn = mapKeyByFn;
+
+export async function mapKeyFirstBy<TKey, TElement, TNewElement>(
+    iterable: AsyncIterableLike<TElement>,
+    f: (
+        element: TElement,
+        index: number
+    ) => readonly [TKey, TNewElement] | Promise<readonly [TKey, TNewElement]>,
+    options: SignalOptions = {}
+): Promise<Map<TKey, TNewElement>> {
+    const map = new Map<TKey, TNewElement>();
+    let i = 0;
+    for await (const element of await abortable(iterable, options)) {
+        const [key, value] = await f(element, i++);
+        if (!map.has(key)) {
+            map.set(key, value);
+        }
+    }
+    return map;
+}
+
+export const asyncMapKeyFirstBy = mapKeyFirstBy;
+
+export function mapKeyFirstByFn<TKey, TElement, TNewElement>(
+    f: (
+        element: TElement,
+        index: number
+    ) => readonly [TKey, TNewElement] | Promise<readonly [TKey, TNewElement]>,
+    options: SignalOptions = {}
+): (iterable: AsyncIterableLike<TElement>) => Promise<Map<TKey, TNewElement>> {
+    return async iterable => mapKeyFirstBy(iterable, f, options);
+}
+
+export const asyncMapKeyFirstByFn = mapKeyFirstByFn;
+
+export async function mapKeyLastBy<TKey, TElement, TNewElement>(
+    iterable: AsyncIterableLike<TElement>,
+    f: (
+        element: TElement,
+        index: number
+    ) => readonly [TKey, TNewElement] | Promise<readonly [TKey, TNewElement]>,
+    options: SignalOptions = {}
+): Promise<Map<TKey, TNewElement>> {
+    const map = new Map<TKey, TNewElement>();
+    let i = 0;
+    for await (const element of await abortable(iterable, options)) {
+        const [key, value] = await f(element, i++);
+        map.set(key, value);
+    }
+    return map;
+}
+
+export const asyncMapKeyLastBy = mapKeyLastBy;
+
+export function mapKeyLastByFn<TKey, TElement, TNewElement>(
+    f: (
+        element: TElement,
+        index: number
+    ) => readonly [TKey, TNewElement] | Promise<readonly [TKey, TNewElement]>,
+    options: SignalOptions = {}
+): (iterable: AsyncIterableLike<TElement>) => Promise<Map<TKey, TNewElement>> {
+    return async iterable => mapKeyLastBy(iterable, f, options);
+}
+
+export const asyncMapKeyLastByFn = mapKeyLastByFn;
+
+export async function* range(
+    start: number,
+    end?: number | undefined,
+    step = 1,
+    options: SignalOptions = {}
+): AsyncIterable<number> {
+    if (isNaN(start)) {
+        throw new RangeError("range: illegal start");
+    }
+
+    if (step === 0 || isNaN(step)) {
+        throw new RangeError("range: illegal step");
+    }
+
+    const last = end ?? (step > 0 ? Infinity : -Infinity);
+
+    if (isNaN(last)) {
+        throw new RangeError("range: illegal end");
+    }
+
+    for (let i = 0; ; ++i) {
+        const value = start + i * step;
+        if (step > 0 ? value >= last : value <= last) {
+            return;
+        }
+        throwIfAborted(options.signal);
+        yield value;
+    }
+}
+
+export const asyncRange = range;
+
+export async function* repeat<T>(
+    value: T,
+    count = Infinity,
+    options: SignalOptions = {}
+): AsyncIterable<T> {
+    if (count < 0 || (count !== Infinity && Math.floor(count) !== count)) {
+        throw new RangeError("repeat: illegal count");
+    }
+
+    for (let i = 0; i < count; ++i) {
+        throwIfAborted(options.signal);
+        yield value;
+    }
+}
+
+export const asyncRepeat = repeat;
+
+export async function* iterate<T>(
+    seed: T,
+    f: (value: T, index: number) => T | Promise<T>,
+    options: SignalOptions = {}
+): AsyncIterable<T> {
+    let value = seed;
+    for (let i = 0; ; ++i) {
+        throwIfAborted(options.signal);
+        yield value;
+        value = await f(value, i);
+    }
+}
+
+export const asyncIterate = iterate;
+
+export async function* unfold<T, TSeed>(
+    seed: TSeed,
+    f: (
+        seed: TSeed,
+        index: number
+    ) => readonly [T, TSeed] | null | undefined | Promise<readonly [T, TSeed] | null | undefined>,
+    options: SignalOptions = {}
+): AsyncIterable<T> {
+    let state = seed;
+    for (let i = 0; ; ++i) {
+        throwIfAborted(options.signal);
+        const next = await f(state, i);
+        if (next == null) {
+            return;
+        }
+        yield next[0];
+        state = next[1];
+    }
+}
+
+export const asyncUnfold = unfold;
+
+export async function* cycle<T>(
+    iterable: AsyncIterableLike<T>,
+    options: SignalOptions = {}
+): AsyncIterable<T> {
+    const elements: T[] = [];
+    for await (const element of await abortable(iterable, options)) {
+        elements.push(element);
+        yield element;
+    }
+
+    if (elements.length === 0) {
+        return;
+    }
+
+    while (true) {
+        for (const element of elements) {
+            throwIfAborted(options.signal);
+            yield element;
+        }
+    }
+}
+
+export const asyncCycle = cycle;
+
+export function cycleFn<T>(
+    options: SignalOptions = {}
+): (iterable: AsyncIterableLike<T>) => AsyncIterable<T> {
+    return iterable => cycle(iterable, options);
+}
+
+export const asyncCycleFn = cycleFn;
+
+export interface Page<T, TCursor> {
+    readonly items: Iterable<T>;
+    readonly nextCursor?: TCursor | null | undefined;
+}
+
+export interface PaginateOptions<TCursor> extends SignalOptions {
+    readonly initialCursor: TCursor;
+    readonly initialOffset?: number | undefined;
+    readonly prefetch?: boolean | undefined;
+}
+
+export interface PaginatedAsyncIterable<T, TCursor> extends AsyncIterable<T> {
+    readonly cursor: TCursor | null;
+    readonly offset: number;
+}
+
+interface PagePosition<TCursor> {
+    cursor: TCursor;
+    offset: number;
+    done: boolean;
+}
+
+export function paginate<T, TCursor>(
+    fetchPage: (cursor: TCursor) => Page<T, TCursor> | Promise<Page<T, TCursor>>,
+    options: PaginateOptions<TCursor>
+): PaginatedAsyncIterable<T, TCursor> {
+    const position: PagePosition<TCursor> = {
+        cursor: options.initialCursor,
+        offset: options.initialOffset ?? 0,
+        done: false
+    };
+
+    if (position.offset < 0 || Math.floor(position.offset) !== position.offset) {
+        throw new RangeError("paginate: illegal initialOffset");
+    }
+
+    const fetch = async (cursor: TCursor): Promise<Page<T, TCursor>> => fetchPage(cursor);
+
+    async function* pages(): AsyncIterable<T> {
+        let prefetched: Promise<Page<T, TCursor>> | null = null;
+
+        while (!position.done) {
+            const page: Page<T, TCursor> = await raceAbort(
+                prefetched ?? fetch(position.cursor),
+                options.signal
+            );
+            const nextCursor = page.nextCursor;
+            prefetched = null;
+            if (options.prefetch === true && nextCursor != null) {
+                prefetched = fetch(nextCursor);
+                prefetched.catch(() => undefined);
+            }
+
+            let index = 0;
+            for (const item of page.items) {
+                if (index++ >= position.offset) {
+                    position.offset = index;
+                    yield item;
+                }
+            }
+
+            advancePage(position, nextCursor);
+        }
+    }
+
+    return {
+        [Symbol.asyncIterator]: () => pages()[Symbol.asyncIterator](),
+        get cursor() {
+            return position.done ? null : position.cursor;
+        },
+        get offset() {
+            return position.offset;
+        }
+    };
+}
+
+export const asyncPaginate = paginate;
+
+function advancePage<TCursor>(
+    position: PagePosition<TCursor>,
+    nextCursor: TCursor | null | undefined
+): void {
+    if (nextCursor == null) {
+        position.done = true;
+    } else {
+        position.cursor = nextCursor;
+        position.offset = 0;
+    }
+}
+
+interface TextDecoderLike {
+    readonly decode: (input?: Uint8Array, options?: {readonly stream?: boolean}) => string;
+}
+
+const textDecoding = globalThis as unknown as {
+    readonly TextDecoder: new (label?: string) => TextDecoderLike;
+};
+
+export async function* decodeText(
+    iterable: AsyncIterableLike<Uint8Array>,
+    encoding = "utf-8",
+    options: SignalOptions = {}
+): AsyncIterable<string> {
+    const decoder = new textDecoding.TextDecoder(encoding);
+
+    for await (const bytes of await abortable(iterable, options)) {
+        const text = decoder.decode(bytes, {stream: true});
+        if (text !== "") {
+            yield text;
+        }
+    }
+
+    const text = decoder.decode();
+    if (text !== "") {
+        yield text;
+    }
+}
+
+export const asyncDecodeText = decodeText;
+
+export function decodeTextFn(
+    encoding = "utf-8",
+    options: SignalOptions = {}
+): (iterable: AsyncIterableLike<Uint8Array>) => AsyncIterable<string> {
+    return iterable => decodeText(iterable, encoding, options);
+}
+
+export const asyncDecodeTextFn = decodeTextFn;
+
+export interface SplitLinesOptions extends SignalOptions {
+    readonly keepEnds?: boolean | undefined;
+    readonly maxLineLength?: number | undefined;
+}
+
+export async function* splitLines(
+    iterable: AsyncIterableLike<string>,
+    options: SplitLinesOptions = {}
+): AsyncIterable<string> {
+    const keepEnds = options.keepEnds ?? false;
+    const maxLineLength = options.maxLineLength ?? Infinity;
+
+    if (
+        maxLineLength < 0 ||
+        (maxLineLength !== Infinity && Math.floor(maxLineLength) !== maxLineLength)
+    ) {
+        throw new RangeError("splitLines: illegal maxLineLength");
+    }
+
+    const checkLength = (length: number): void => {
+        if (length > maxLineLength) {
+            throw new RangeError("splitLines: line exceeds maxLineLength");
+        }
+    };
+
+    let buffer = "";
+    for await (const text of await abortable(iterable, options)) {
+        const from = buffer.length;
+        buffer += text;
+        let start = 0;
+        let index = buffer.indexOf("\n", from);
+        while (index >= 0) {
+            const end = index > start && buffer.charAt(index - 1) === "\r" ? index - 1 : index;
+            checkLength(end - start);
+            yield buffer.slice(start, keepEnds ? index + 1 : end);
+            start = index + 1;
+            index = buffer.indexOf("\n", start);
+        }
+        buffer = buffer.slice(start);
+        checkLength(buffer.endsWith("\r") ? buffer.length - 1 : buffer.length);
+    }
+
+    if (buffer !== "") {
+        yield keepEnds || !buffer.endsWith("\r") ? buffer : buffer.slice(0, -1);
+    }
+}
+
+export const asyncSplitLines = splitLines;
+
+export function splitLinesFn(
+    options: SplitLinesOptions = {}
+): (iterable: AsyncIterableLike<string>) => AsyncIterable<string> {
+    return iterable => splitLines(iterable, options);
+}
+
+export const asyncSplitLinesFn = splitLinesFn;
+
+export function splitOn(
+    iterable: AsyncIterableLike<string>,
+    delimiter: string,
+    options?: SignalOptions
+): AsyncIterable<string>;
+export function splitOn(
+    iterable: AsyncIterableLike<Uint8Array>,
+    delimiter: Uint8Array,
+    options?: SignalOptions
+): AsyncIterable<Uint8Array>;
+export function splitOn(
+    iterable: AsyncIterableLike<string> | AsyncIterableLike<Uint8Array>,
+    delimiter: string | Uint8Array,
+    options: SignalOptions = {}
+): AsyncIterable<string> | AsyncIterable<Uint8Array> {
+    return typeof delimiter === "string"
+        ? splitOnString(iterable as AsyncIterableLike<string>, delimiter, options)
+        : splitOnBytes(iterable as AsyncIterableLike<Uint8Array>, delimiter, options);
+}
+
+export const asyncSplitOn = splitOn;
+
+export function splitOnFn(
+    delimiter: string,
+    options?: SignalOptions
+): (iterable: AsyncIterableLike<string>) => AsyncIterable<string>;
+export function splitOnFn(
+    delimiter: Uint8Array,
+    options?: SignalOptions
+): (iterable: AsyncIterableLike<Uint8Array>) => AsyncIterable<Uint8Array>;
+export function splitOnFn(
+    delimiter: string | Uint8Array,
+    options: SignalOptions = {}
+):
+    | ((iterable: AsyncIterableLike<string>) => AsyncIterable<string>)
+    | ((iterable: AsyncIterableLike<Uint8Array>) => AsyncIterable<Uint8Array>) {
+    if (typeof delimiter === "string") {
+        return (iterable: AsyncIterableLike<string>) => splitOnString(iterable, delimiter, options);
+    } else {
+        return (iterable: AsyncIterableLike<Uint8Array>) =>
+            splitOnBytes(iterable, delimiter, options);
+    }
+}
+
+export const asyncSplitOnFn = splitOnFn;
+
+async function* splitOnString(
+    iterable: AsyncIterableLike<string>,
+    delimiter: string,
+    options: SignalOptions
+): AsyncIterable<string> {
+    if (delimiter === "") {
+        throw new RangeError("splitOn: illegal delimiter");
+    }
+
+    let buffer: string | null = null;
+    for await (const text of await abortable(iterable, options)) {
+        const from = Math.max(0, (buffer ?? "").length - delimiter.length + 1);
+        buffer = (buffer ?? "") + text;
+        let start = 0;
+        let index = buffer.indexOf(delimiter, from);
+        while (index >= 0) {
+            yield buffer.slice(start, index);
+            start = index + delimiter.length;
+            index = buffer.indexOf(delimiter, start);
+        }
+        buffer = buffer.slice(start);
+    }
+
+    if (buffer != null) {
+        yield buffer;
+    }
+}
+
+async function* splitOnBytes(
+    iterable: AsyncIterableLike<Uint8Array>,
+    delimiter: Uint8Array,
+    options: SignalOptions
+): AsyncIterable<Uint8Array> {
+    if (delimiter.length === 0) {
+        throw new RangeError("splitOn: illegal delimiter");
+    }
+
+    const pending: Uint8Array[] = [];
+    let pendingLength = 0;
+    let seen = false;
+    for await (const bytes of await abortable(iterable, options)) {
+        seen = true;
+        const carry = Math.min(delimiter.length - 1, pendingLength);
+        const window = joinBytes([tailBytes(pending, carry), bytes]);
+        let start = carry;
+        let index = indexOfBytes(window, delimiter, 0);
+        while (index >= 0) {
+            yield index < carry
+                ? joinBytes(pending).subarray(0, pendingLength - carry + index)
+                : joinBytes([...pending, window.subarray(start, index)]);
+            pending.length = 0;
+            pendingLength = 0;
+            start = index + delimiter.length;
+            index = indexOfBytes(window, delimiter, start);
+        }
+        const rest = window.subarray(start);
+        pending.push(rest);
+        pendingLength += rest.length;
+    }
+
+    if (seen) {
+        yield joinBytes(pending);
+    }
+}
+
+function joinBytes(chunks: readonly Uint8Array[]): Uint8Array {
+    const joined = new Uint8Array(chunks.reduce((length, chunk) => length + chunk.length, 0));
+    let offset = 0;
+    for (const chunk of chunks) {
+        joined.set(chunk, offset);
+        offset += chunk.length;
+    }
+    return joined;
+}
+
+function tailBytes(chunks: readonly Uint8Array[], length: number): Uint8Array {
+    const tail: Uint8Array[] = [];
+    let remaining = length;
+    for (let i = chunks.length - 1; i >= 0 && remaining > 0; --i) {
+        const chunk = chunks[i] ?? new Uint8Array(0);
+        const part = chunk.subarray(Math.max(0, chunk.length - remaining));
+        tail.unshift(part);
+        remaining -= part.length;
+    }
+    return joinBytes(tail);
+}
+
+function indexOfBytes(bytes: Uint8Array, search: Uint8Array, from: number): number {
+    for (let i = from; i <= bytes.length - search.length; ++i) {
+        let j = 0;
+        while (j < search.length && bytes[i + j] === search[j]) {
+            ++j;
+        }
+        if (j === search.length) {
+            return i;
+        }
+    }
+    return -1;
+}
+
+export class JsonParseError extends SyntaxError {
+    public constructor(
+        message = "Invalid JSON",
+        public readonly line: number | null = null
+    ) {
+        super(message);
+        this.name = "JsonParseError";
+    }
+}
+
+export async function* parseNdjson<T = unknown>(
+    iterable: AsyncIterableLike<string | Uint8Array>,
+    options: SignalOptions = {}
+): AsyncIterable<T> {
+    let line = 0;
+    for await (const text of splitLines(decodeChunks(iterable, options))) {
+        ++line;
+        if (text.trim() !== "") {
+            yield parseJsonElement<T>("parseNdjson", text, line);
+        }
+    }
+}
+
+export const asyncParseNdjson = parseNdjson;
+
+export function parseNdjsonFn<T = unknown>(
+    options: SignalOptions = {}
+): (iterable: AsyncIterableLike<string | Uint8Array>) => AsyncIterable<T> {
+    return iterable => parseNdjson<T>(iterable, options);
+}
+
+export const asyncParseNdjsonFn = parseNdjsonFn;
+
+export async function* toNdjson<T>(
+    iterable: AsyncIterableLike<T>,
+    options: SignalOptions = {}
+): AsyncIterable<string> {
+    for await (const element of await abortable(iterable, options)) {
+        yield `${JSON.stringify(element) ?? "null"}\n`;
+    }
+}
+
+export const asyncToNdjson = toNdjson;
+
+export function toNdjsonFn<T>(
+    options: SignalOptions = {}
+): (iterable: AsyncIterableLike<T>) => AsyncIterable<string> {
+    return iterable => toNdjson(iterable, options);
+}
+
+export const asyncToNdjsonFn = toNdjsonFn;
+
+export async function* parseJsonArray<T = unknown>(
+    iterable: AsyncIterableLike<string | Uint8Array>,
+    options: SignalOptions = {}
+): AsyncIterable<T> {
+    const scanner: JsonArrayScanner = {state: "start", line: 1, element: null};
+
+    for await (const text of decodeChunks(iterable, options)) {
+        for (const element of scanJsonArray(scanner, text)) {
+            yield parseJsonElement<T>("parseJsonArray", element.text, element.line);
+        }
+    }
+
+    if (scanner.state !== "end") {
+        throw new JsonParseError(
+            `parseJsonArray: line ${scanner.line}: Unexpected end of input`,
+            scanner.line
+        );
+    }
+}
+
+export const asyncParseJsonArray = parseJsonArray;
+
+export function parseJsonArrayFn<T = unknown>(
+    options: SignalOptions = {}
+): (iterable: AsyncIterableLike<string | Uint8Array>) => AsyncIterable<T> {
+    return iterable => parseJsonArray<T>(iterable, options);
+}
+
+export const asyncParseJsonArrayFn = parseJsonArrayFn;
+
+async function* decodeChunks(
+    iterable: AsyncIterableLike<string | Uint8Array>,
+    options: SignalOptions
+): AsyncIterable<string> {
+    let decoder: TextDecoderLike | null = null;
+
+    for await (const chunk of await abortable(iterable, options)) {
+        if (typeof chunk === "string") {
+            yield chunk;
+        } else {
+            decoder ??= new textDecoding.TextDecoder();
+            const text = decoder.decode(chunk, {stream: true});
+            if (text !== "") {
+                yield text;
+            }
+        }
+    }
+
+    const text = decoder?.decode() ?? "";
+    if (text !== "") {
+        yield text;
+    }
+}
+
+function parseJsonElement<T>(name: string, text: string, line: number): T {
+    try {
+        return JSON.parse(text) as T;
+    } catch (reason: unknown) {
+        const message = reason instanceof Error ? reason.message : String(reason);
+        throw new JsonParseError(`${name}: line ${line}: ${message}`, line);
+    }
+}
+
+interface JsonArrayScanner {
+    state: "start" | "first" | "value" | "comma" | "end";
+    line: number;
+    element: JsonElementScanner | null;
+}
+
+interface JsonElementScanner {
+    text: string;
+    readonly line: number;
+    readonly primitive: boolean;
+    nesting: number;
+    inString: boolean;
+    escaped: boolean;
+}
+
+interface JsonElement {
+    readonly text: string;
+    readonly line: number;
+}
+
+function scanJsonArray(scanner: JsonArrayScanner, text: string): JsonElement[] {
+    const elements: JsonElement[] = [];
+    let start = 0;
+
+    for (let i = 0; i < text.length; ++i) {
+        const char = text.charAt(i);
+        const element = scanner.element;
+        if (char === "\n") {
+            ++scanner.line;
+        }
+
+        if (element != null && !element.primitive) {
+            if (scanJsonChar(element, char)) {
+                elements.push({text: element.text + text.slice(start, i + 1), line: element.line});
+                scanner.element = null;
+                scanner.state = "comma";
+            }
+        } else if (element == null || isJsonPrimitiveEnd(char)) {
+            if (element != null) {
+                elements.push({text: element.text + text.slice(start, i), line: element.line});
+                scanner.element = null;
+                scanner.state = "comma";
+            }
+
+            if (!isJsonWhitespace(char)) {
+                start = i;
+                scanJsonArrayChar(scanner, char);
+            }
+        }
+    }
+
+    if (scanner.element != null) {
+        scanner.element.text += text.slice(start);
+    }
+
+    return elements;
+}
+
+function scanJsonArrayChar(scanner: JsonArrayScanner, char: string): void {
+    if (scanner.state === "start" && char === "[") {
+        scanner.state = "first";
+    } else if ((scanner.state === "first" || scanner.state === "comma") && char === "]") {
+        scanner.state = "end";
+    } else if (scanner.state === "comma" && char === ",") {
+        scanner.state = "value";
+    } else if (
+        (scanner.state === "first" || scanner.state === "value") &&
+        !isJsonPunctuation(char)
+    ) {
+        const primitive = char !== "{" && char !== "[" && char !== '"';
+        scanner.element = {
+            text: "",
+            line: scanner.line,
+            primitive,
+            nesting: 0,
+            inString: false,
+            escaped: false
+        };
+        if (!primitive) {
+            scanJsonChar(scanner.element, char);
+        }
+    } else {
+        throw new JsonParseError(
+            `parseJsonArray: line ${scanner.line}: Unexpected token ${char}`,
+            scanner.line
+        );
+    }
+}
+
+function scanJsonChar(element: JsonElementScanner, char: string): boolean {
+    if (element.inString) {
+        if (element.escaped) {
+            element.escaped = false;
+        } else if (char === "\\") {
+            element.escaped = true;
+        } else if (char === '"') {
+            element.inString = false;
+            return element.nesting === 0;
+        }
+    } else if (char === '"') {
+        element.inString = true;
+    } else if (char === "{" || char === "[") {
+        ++element.nesting;
+    } else if (char === "}" || char === "]") {
+        --element.nesting;
+        return element.nesting === 0;
+    }
+
+    return false;
+}
+
+function isJsonWhitespace(char: string): boolean {
+    return char === " " || char === "\t" || char === "\n" || char === "\r";
+}
+
+function isJsonPrimitiveEnd(char: string): boolean {
+    return isJsonWhitespace(char) || isJsonPunctuation(char);
+}
+
+function isJsonPunctuation(char: string): boolean {
+    return char === "," || char === "]" || char === "}" || char === ":";
+}
+
+export class CsvParseError extends SyntaxError {
+    public constructor(
+        message = "Invalid CSV",
+        public readonly line: number | null = null
+    ) {
+        super(message);
+        this.name = "CsvParseError";
+    }
+}
+
+export interface CsvOptions extends SignalOptions {
+    readonly delimiter?: string | undefined;
+    readonly quote?: string | undefined;
+}
+
+export interface ParseCsvOptions extends CsvOptions {
+    readonly header?: boolean | undefined;
+    readonly columns?: readonly string[] | undefined;
+}
+
+export type CsvRecord = Record<string, string>;
+
+export function parseCsv(
+    iterable: AsyncIterableLike<string | Uint8Array>,
+    options: ParseCsvOptions & ({readonly header: true} | {readonly columns: readonly string[]})
+): AsyncIterable<CsvRecord>;
+export function parseCsv(
+    iterable: AsyncIterableLike<string | Uint8Array>,
+    options?: CsvOptions & {readonly header?: false | undefined; readonly columns?: undefined}
+): AsyncIterable<string[]>;
+export function parseCsv(
+    iterable: AsyncIterableLike<string | Uint8Array>,
+    options?: ParseCsvOptions
+): AsyncIterable<string[] | CsvRecord>;
+export async function* parseCsv(
+    iterable: AsyncIterableLike<string | Uint8Array>,
+    options: ParseCsvOptions = {}
+): AsyncIterable<string[] | CsvRecord> {
+    const [delimiter, quote] = csvDelimiters("parseCsv", options);
+    let columns = options.columns ?? null;
+    let header = options.header ?? false;
+
+    for await (const row of csvRows(iterable, delimiter, quote, options)) {
+        if (header) {
+            header = false;
+            columns ??= row.fields;
+        } else if (columns == null) {
+            yield row.fields;
+        } else if (row.fields.length !== columns.length) {
+            throw new CsvParseError(
+                `parseCsv: line ${row.line}: Expected ${columns.length} fields but found ${row.fields.length}`,
+                row.line
+            );
+        } else {
+            const record: CsvRecord = {};
+            for (let i = 0; i < columns.length; ++i) {
+                record[columns[i] ?? ""] = row.fields[i] ?? "";
+            }
+            yield record;
+        }
+    }
+}
+
+export const asyncParseCsv = parseCsv;
+
+export function parseCsvFn(
+    options: ParseCsvOptions & ({readonly header: true} | {readonly columns: readonly string[]})
+): (iterable: AsyncIterableLike<string | Uint8Array>) => AsyncIterable<CsvRecord>;
+export function parseCsvFn(
+    options?: CsvOptions & {readonly header?: false | undefined; readonly columns?: undefined}
+): (iterable: AsyncIterableLike<string | Uint8Array>) => AsyncIterable<string[]>;
+export function parseCsvFn(
+    options?: ParseCsvOptions
+): (iterable: AsyncIterableLike<string | Uint8Array>) => AsyncIterable<string[] | CsvRecord>;
+export function parseCsvFn(
+    options: ParseCsvOptions = {}
+): (iterable: AsyncIterableLike<string | Uint8Array>) => AsyncIterable<string[] | CsvRecord> {
+    return iterable => parseCsv(iterable, options);
+}
+
+export const asyncParseCsvFn = parseCsvFn;
+
+export interface ToCsvOptions extends CsvOptions {
+    readonly header?: boolean | undefined;
+    readonly columns?: readonly string[] | undefined;
+}
+
+export async function* toCsv<T extends readonly unknown[] | Readonly<Record<string, unknown>>>(
+    iterable: AsyncIterableLike<T>,
+    options: ToCsvOptions = {}
+): AsyncIterable<string> {
+    const [delimiter, quote] = csvDelimiters("toCsv", options);
+    const format = (fields: readonly unknown[]): string =>
+        `${fields.map(field => formatCsvField(field, delimiter, quote)).join(delimiter)}\n`;
+    let columns = options.columns ?? null;
+    let header = options.header ?? false;
+
+    if (header && columns != null) {
+        yield format(columns);
+        header = false;
+    }
+
+    for await (const element of await abortable(iterable, options)) {
+        if (!Array.isArray(element)) {
+            columns ??= Object.keys(element);
+        }
+        if (header) {
+            if (columns == null) {
+                throw new RangeError("toCsv: header requires columns for array rows");
+            }
+            yield format(columns);
+            header = false;
+        }
+
+        const record = element as Readonly<Record<string, unknown>>;
+        yield format(
+            Array.isArray(element) ? element : (columns ?? []).map(column => record[column])
+        );
+    }
+}
+
+export const asyncToCsv = toCsv;
+
+export function toCsvFn<T extends readonly unknown[] | Readonly<Record<string, unknown>>>(
+    options: ToCsvOptions = {}
+): (iterable: AsyncIterableLike<T>) => AsyncIterable<string> {
+    return iterable => toCsv(iterable, options);
+}
+
+export const asyncToCsvFn = toCsvFn;
+
+function csvDelimiters(name: string, options: CsvOptions): readonly [string, string] {
+    const delimiter = options.delimiter ?? ",";
+    const quote = options.quote ?? '"';
+
+    if (delimiter.length !== 1 || delimiter === "\r" || delimiter === "\n") {
+        throw new RangeError(`${name}: illegal delimiter`);
+    }
+
+    if (quote.length !== 1 || quote === "\r" || quote === "\n" || quote === delimiter) {
+        throw new RangeError(`${name}: illegal quote`);
+    }
+
+    return [delimiter, quote];
+}
+
+function formatCsvField(field: unknown, delimiter: string, quote: string): string {
+    const text = field == null ? "" : String(field);
+    if (
+        text.includes(delimiter) ||
+        text.includes(quote) ||
+        text.includes("\r") ||
+        text.includes("\n")
+    ) {
+        return quote + text.split(quote).join(quote + quote) + quote;
+    } else {
+        return text;
+    }
+}
+
+interface CsvRow {
+    readonly fields: string[];
+    readonly line: number;
+}
+
+interface CsvScanner {
+    readonly delimiter: string;
+    readonly quote: string;
+    state: "start" | "unquoted" | "quoted" | "quote";
+    fields: string[];
+    field: string;
+    line: number;
+    rowLine: number;
+    skipLineFeed: boolean;
+}
+
+async function* csvRows(
+    iterable: AsyncIterableLike<string | Uint8Array>,
+    delimiter: string,
+    quote: string,
+    options: SignalOptions
+): AsyncIterable<CsvRow> {
+    const scanner: CsvScanner = {
+        delimiter,
+        quote,
+        state: "start",
+        fields: [],
+        field: "",
+        line: 1,
+        rowLine: 1,
+        skipLineFeed: false
+    };
+
+    for await (const text of decodeChunks(iterable, options)) {
+        yield* scanCsv(scanner, text);
+    }
+
+    if (scanner.state === "quoted") {
+        throw new CsvParseError(
+            `parseCsv: line ${scanner.rowLine}: Unterminated quoted field`,
+            scanner.rowLine
+        );
+    }
+
+    const rows: CsvRow[] = [];
+    endCsvRow(scanner, rows);
+    yield* rows;
+}
+
+function scanCsv(scanner: CsvScanner, text: string): CsvRow[] {
+    const rows: CsvRow[] = [];
+
+    for (const char of text) {
+        const skip = scanner.skipLineFeed && char === "\n";
+        scanner.skipLineFeed = false;
+        if (char === "\n") {
+            ++scanner.line;
+        }
+
+        if (skip) {
+            scanner.rowLine = scanner.line;
+            continue;
+        }
+
+        if (scanner.state === "quoted") {
+            if (char === scanner.quote) {
+                scanner.state = "quote";
+            } else {
+                scanner.field += char;
+            }
+        } else if (scanner.state === "quote" && char === scanner.quote) {
+            scanner.field += char;
+            scanner.state = "quoted";
+        } else if (char === scanner.delimiter) {
+            scanner.fields.push(scanner.field);
+            scanner.field = "";
+            scanner.state = "start";
+        } else if (char === "\r" || char === "\n") {
+            scanner.skipLineFeed = char === "\r";
+            endCsvRow(scanner, rows);
+        } else if (scanner.state === "start" && char === scanner.quote) {
+            scanner.state = "quoted";
+        } else if (scanner.state === "start" || scanner.state === "unquoted") {
+            scanner.field += char;
+            scanner.state = "unquoted";
+        } else {
+            throw new CsvParseError(
+                `parseCsv: line ${scanner.line}: Unexpected character after closing quote`,
+                scanner.line
+            );
+        }
+    }
+
+    return rows;
+}
+
+function endCsvRow(scanner: CsvScanner, rows: CsvRow[]): void {
+    if (scanner.state !== "start" || scanner.fields.length > 0) {
+        scanner.fields.push(scanner.field);
+        rows.push({fields: scanner.fields, line: scanner.rowLine});
+    }
+
+    scanner.fields = [];
+    scanner.field = "";
+    scanner.state = "start";
+    scanner.rowLine = scanner.line;
+}
+
+export function pipe<A>(source: A): A;
+export function pipe<A, B>(source: A, ab: (a: A) => B): B;
+export function pipe<A, B, C>(source: A, ab: (a: A) => B, bc: (b: B) => C): C;
+export function pipe<A, B, C, D>(source: A, ab: (a: A) => B, bc: (b: B) => C, cd: (c: C) => D): D;
+export function pipe<A, B, C, D, E>(
+    source: A,
+    ab: (a: A) => B,
+    bc: (b: B) => C,
+    cd: (c: C) => D,
+    de: (d: D) => E
+): E;
+export function pipe<A, B, C, D, E, F>(
+    source: A,
+    ab: (a: A) => B,
+    bc: (b: B) => C,
+    cd: (c: C) => D,
+    de: (d: D) => E,
+    ef: (e: E) => F
+): F;
+export function pipe<A, B, C, D, E, F, G>(
+    source: A,
+    ab: (a: A) => B,
+    bc: (b: B) => C,
+    cd: (c: C) => D,
+    de: (d: D) => E,
+    ef: (e: E) => F,
+    fg: (f: F) => G
+): G;
+export function pipe<A, B, C, D, E, F, G, H>(
+    source: A,
+    ab: (a: A) => B,
+    bc: (b: B) => C,
+    cd: (c: C) => D,
+    de: (d: D) => E,
+    ef: (e: E) => F,
+    fg: (f: F) => G,
+    gh: (g: G) => H
+): H;
+export function pipe<A, B, C, D, E, F, G, H, I>(
+    source: A,
+    ab: (a: A) => B,
+    bc: (b: B) => C,
+    cd: (c: C) => D,
+    de: (d: D) => E,
+    ef: (e: E) => F,
+    fg: (f: F) => G,
+    gh: (g: G) => H,
+    hi: (h: H) => I
+): I;
+export function pipe<A, B, C, D, E, F, G, H, I, J>(
+    source: A,
+    ab: (a: A) => B,
+    bc: (b: B) => C,
+    cd: (c: C) => D,
+    de: (d: D) => E,
+    ef: (e: E) => F,
+    fg: (f: F) => G,
+    gh: (g: G) => H,
+    hi: (h: H) => I,
+    ij: (i: I) => J
+): J;
+export function pipe<A, B, C, D, E, F, G, H, I, J, K>(
+    source: A,
+    ab: (a: A) => B,
+    bc: (b: B) => C,
+    cd: (c: C) => D,
+    de: (d: D) => E,
+    ef: (e: E) => F,
+    fg: (f: F) => G,
+    gh: (g: G) => H,
+    hi: (h: H) => I,
+    ij: (i: I) => J,
+    jk: (j: J) => K
+): K;
+export function pipe(source: unknown, ...fns: ReadonlyArray<(value: unknown) => unknown>): unknown {
+    return fns.reduce((value, f) => f(value), source);
+}
+
+export function flow<A extends readonly unknown[], B>(ab: (...args: A) => B): (...args: A) => B;
+export function flow<A extends readonly unknown[], B, C>(
+    ab: (...args: A) => B,
+    bc: (b: B) => C
+): (...args: A) => C;
+export function flow<A extends readonly unknown[], B, C, D>(
+    ab: (...args: A) => B,
+    bc: (b: B) => C,
+    cd: (c: C) => D
+): (...args: A) => D;
+export function flow<A extends readonly unknown[], B, C, D, E>(
+    ab: (...args: A) => B,
+    bc: (b: B) => C,
+    cd: (c: C) => D,
+    de: (d: D) => E
+): (...args: A) => E;
+export function flow<A extends readonly unknown[], B, C, D, E, F>(
+    ab: (...args: A) => B,
+    bc: (b: B) => C,
+    cd: (c: C) => D,
+    de: (d: D) => E,
+    ef: (e: E) => F
+): (...args: A) => F;
+export function flow<A extends readonly unknown[], B, C, D, E, F, G>(
+    ab: (...args: A) => B,
+    bc: (b: B) => C,
+    cd: (c: C) => D,
+    de: (d: D) => E,
+    ef: (e: E) => F,
+    fg: (f: F) => G
+): (...args: A) => G;
+export function flow<A extends readonly unknown[], B, C, D, E, F, G, H>(
+    ab: (...args: A) => B,
+    bc: (b: B) => C,
+    cd: (c: C) => D,
+    de: (d: D) => E,
+    ef: (e: E) => F,
+    fg: (f: F) => G,
+    gh: (g: G) => H
+): (...args: A) => H;
+export function flow<A extends readonly unknown[], B, C, D, E, F, G, H, I>(
+    ab: (...args: A) => B,
+    bc: (b: B) => C,
+    cd: (c: C) => D,
+    de: (d: D) => E,
+    ef: (e: E) => F,
+    fg: (f: F) => G,
+    gh: (g: G) => H,
+    hi: (h: H) => I
+): (...args: A) => I;
+export function flow<A extends readonly unknown[], B, C, D, E, F, G, H, I, J>(
+    ab: (...args: A) => B,
+    bc: (b: B) => C,
+    cd: (c: C) => D,
+    de: (d: D) => E,
+    ef: (e: E) => F,
+    fg: (f: F) => G,
+    gh: (g: G) => H,
+    hi: (h: H) => I,
+    ij: (i: I) => J
+): (...args: A) => J;
+export function flow<A extends readonly unknown[], B, C, D, E, F, G, H, I, J, K>(
+    ab: (...args: A) => B,
+    bc: (b: B) => C,
+    cd: (c: C) => D,
+    de: (d: D) => E,
+    ef: (e: E) => F,
+    fg: (f: F) => G,
+    gh: (g: G) => H,
+    hi: (h: H) => I,
+    ij: (i: I) => J,
+    jk: (j: J) => K
+): (...args: A) => K;
+export function flow(
+    first: (...args: readonly unknown[]) => unknown,
+    ...rest: ReadonlyArray<(value: unknown) => unknown>
+): (...args: readonly unknown[]) => unknown {
+    return (...args) => rest.reduce((value, f) => f(value), first(...args));
+}
+
+export class AsyncSeq<T> implements AsyncIterable<T> {
+    public constructor(private readonly iterable: AsyncIterableLike<T>) {}
+
+    public [Symbol.asyncIterator](): AsyncIterator<T> {
+        return asyncIterator(this.iterable);
+    }
+
+    public withSignal(signal: AbortSignal): AsyncSeq<T> {
+        return new AsyncSeq(withSignal(this.iterable, signal));
+    }
+
+    public async toArray(options: SignalOptions = {}): Promise<T[]> {
+        return toArray(this.iterable, options);
+    }
+
+    public async toSet(options: SignalOptions = {}): Promise<Set<T>> {
+        return toSet(this.iterable, options);
+    }
+
+    public async first(options: SignalOptions = {}): Promise<T | null> {
+        return first(this.iterable, options);
+    }
+
+    public tail(options: SignalOptions = {}): AsyncSeq<T> {
+        return new AsyncSeq(tail(this.iterable, options));
+    }
+
+    public push(value: T | Promise<T>, options: SignalOptions = {}): AsyncSeq<T> {
+        return new AsyncSeq(push(this.iterable, value, options));
+    }
+
+    public unshift(value: T | Promise<T>, options: SignalOptions = {}): AsyncSeq<T> {
+        return new AsyncSeq(unshift(this.iterable, value, options));
+    }
+
+    public initial(options: SignalOptions = {}): AsyncSeq<T> {
+        return new AsyncSeq(initial(this, options));
+    }
+
+    public async last(options: SignalOptions = {}): Promise<T | null> {
+        return last(this.iterable, options);
+    }
+
+    public async only(options: SignalOptions = {}): Promise<T | null> {
+        return only(this.iterable, options);
+    }
+
+    public async empty(options: SignalOptions = {}): Promise<boolean> {
+        return empty(this.iterable, options);
+    }
+
+    public async notEmpty(options: SignalOptions = {}): Promise<boolean> {
+        return notEmpty(this.iterable, options);
+    }
+
+    public slice(
+        start: number | Promise<number> = 0,
+        end: number | Promise<number> = Infinity,
+        options: SignalOptions = {}
+    ): AsyncSeq<T> {
+        return new AsyncSeq(slice(this.iterable, start, end, options));
+    }
+
+    public take(count: number | Promise<number>, options: SignalOptions = {}): AsyncSeq<T> {
+        return new AsyncSeq(take(this.iterable, count, options));
+    }
+
+    public drop(count: number | Promise<number>, options: SignalOptions = {}): AsyncSeq<T> {
+        return new AsyncSeq(drop(this.iterable, count, options));
+    }
+
+    public takeWhile<U extends T>(
+        predicate: (element: T, index: number) => element is U,
+        options?: SignalOptions
+    ): AsyncSeq<U>;
+    public takeWhile(
+        predicate: (element: T, index: number) => boolean | Promise<boolean>,
+        options?: SignalOptions
+    ): AsyncSeq<T>;
+    public takeWhile(
+        predicate: (element: T, index: number) => boolean | Promise<boolean>,
+        options: SignalOptions = {}
+    ): AsyncSeq<T> {
+        return new AsyncSeq(takeWhile(this.iterable, predicate, options));
+    }
+
+    public takeUntil(
+        predicate: (element: T, index: number) => boolean | Promise<boolean>,
+        options: SignalOptions = {}
+    ): AsyncSeq<T> {
+        return new AsyncSeq(takeUntil(this.iterable, predicate, options));
+    }
+
+    public dropWhile(
+        predicate: (element: T, index: number) => boolean | Promise<boolean>,
+        options: SignalOptions = {}
+    ): AsyncSeq<T> {
+        return new AsyncSeq(dropWhile(this.iterable, predicate, options));
+    }
+
+    public dropUntil(
+        predicate: (element: T, index: number) => boolean | Promise<boolean>,
+        options: SignalOptions = {}
+    ): AsyncSeq<T> {
+        return new AsyncSeq(dropUntil(this.iterable, predicate, options));
+    }
+
+    public async equal(
+        b: AsyncIterableLike<T>,
+        elementsEqual: (a: T, b: T) => boolean | Promise<boolean> = defaultEqual,
+        options: SignalOptions = {}
+    ): Promise<boolean> {
+        return equal(this.iterable, b, elementsEqual, options);
+    }
+
+    public async notEqual(
+        b: AsyncIterableLike<T>,
+        elementsEqual: (a: T, b: T) => boolean | Promise<boolean> = defaultEqual,
+        options: SignalOptions = {}
+    ): Promise<boolean> {
+        return notEqual(this.iterable, b, elementsEqual, options);
+    }
+
+    public async prefixMatch(
+        b: AsyncIterableLike<T>,
+        elementsEqual: (a: T, b: T) => boolean | Promise<boolean> = defaultEqual,
+        options: SignalOptions = {}
+    ): Promise<boolean> {
+        return prefixMatch(this.iterable, b, elementsEqual, options);
+    }
+
+    public map<U>(
+        f: (element: T, index: number) => U | Promise<U>,
+        options: SignalOptions = {}
+    ): AsyncSeq<U> {
+        return new AsyncSeq(map(this.iterable, f, options));
+    }
+
+    public mapConcurrent<U>(
+        f: (element: T, index: number) => U | Promise<U>,
+        options: MapConcurrentOptions
+    ): AsyncSeq<U> {
+        return new AsyncSeq(mapConcurrent(this.iterable, f, options));
+    }
+
+    public filter<U extends T>(
+        predicate: (element: T, index: number) => element is U,
+        options?: SignalOptions
+    ): AsyncSeq<U>;
+    public filter(
+        predicate: (element: T, index: number) => boolean | Promise<boolean>,
+        options?: SignalOptions
+    ): AsyncSeq<T>;
+    public filter(
+        predicate: (element: T, index: number) => boolean | Promise<boolean>,
+        options: SignalOptions = {}
+    ): AsyncSeq<T> {
+        return new AsyncSeq(filter(this.iterable, predicate, options));
+    }
+
+    public exclude(
+        predicate: (element: T, index: number) => boolean | Promise<boolean>,
+        options: SignalOptions = {}
+    ): AsyncSeq<T> {
+        return new AsyncSeq(exclude(this.iterable, predicate, options));
+    }
+
+    public excludeNull<U>(
+        this: AsyncSeq<U | null | undefined>,
+        options: SignalOptions = {}
+    ): AsyncSeq<U> {
+        return new AsyncSeq(excludeNull(this.iterable, options));
+    }
+
+    public excludeFirst(
+        predicate: (element: T, index: number) => boolean | Promise<boolean>,
+        options: SignalOptions = {}
+    ): AsyncSeq<T> {
+        return new AsyncSeq(excludeFirst(this.iterable, predicate, options));
+    }
+
+    public remove(value: T, options: SignalOptions = {}): AsyncSeq<T> {
+        return new AsyncSeq(remove(this.iterable, value, options));
+    }
+
+    public removeFirst(value: T, options: SignalOptions = {}): AsyncSeq<T> {
+        return new AsyncSeq(removeFirst(this.iterable, value, options));
+    }
+
+    public async fold<U>(
+        f: (accumulator: U, element: T, index: number) => U | Promise<U>,
+        initial: U,
+        options: SignalOptions = {}
+    ): Promise<U> {
+        return fold(this.iterable, f, initial, options);
+    }
+
+    public async fold1(
+        f: (accumulator: T, element: T, index: number) => T | Promise<T>,
+        options: SignalOptions = {}
+    ): Promise<T> {
+        return fold1(this.iterable, f, options);
+    }
+
+    public async index(i: number, options: SignalOptions = {}): Promise<T | null> {
+        return index(this.iterable, i, options);
+    }
+
+    public async contains(value: T, options: SignalOptions = {}): Promise<boolean> {
+        return contains(this.iterable, value, options);
+    }
+
+    public async indexOf(value: T, options: SignalOptions = {}): Promise<number | null> {
+        return indexOf(this.iterable, value, options);
+    }
+
+    public async findIndex(
+        predicate: (element: T, index: number) => boolean | Promise<boolean>,
+        options: SignalOptions = {}
+    ): Promise<number | null> {
+        return findIndex(this.iterable, predicate, options);
+    }
+
+    public async find<U extends T>(
+        predicate: (element: T, index: number) => element is U,
+        options?: SignalOptions
+    ): Promise<U | null>;
+    public async find(
+        predicate: (element: T, index: number) => boolean | Promise<boolean>,
+        options?: SignalOptions
+    ): Promise<T | null>;
+    public async find(
+        predicate: (element: T, index: number) => boolean | Promise<boolean>,
+        options: SignalOptions = {}
+    ): Promise<T | null> {
+        return find(this.iterable, predicate, options);
+    }
+
+    public async maximum<U extends string | number | boolean>(
+        this: AsyncSeq<U>,
+        compare?: Comparator<U>,
+        options?: SignalOptions
+    ): Promise<U | null>;
+    public async maximum(compare: Comparator<T>, options?: SignalOptions): Promise<T | null>;
+    public async maximum(compare?: Comparator<T>, options: SignalOptions = {}): Promise<T | null> {
+        return internalMaximum(
+            this.iterable,
+            compare ?? (defaultCompare as unknown as Comparator<T>),
+            options
+        );
+    }
+
+    public async maximumBy(
+        select: (element: T, index: number) => number | Promise<number>,
+        options: SignalOptions = {}
+    ): Promise<T | null> {
+        return maximumBy(this.iterable, select, options);
+    }
+
+    public async minimum<U extends string | number | boolean>(
+        this: AsyncSeq<U>,
+        compare?: Comparator<U>,
+        options?: SignalOptions
+    ): Promise<U | null>;
+    public async minimum(compare: Comparator<T>, options?: SignalOptions): Promise<T | null>;
+    public async minimum(compare?: Comparator<T>, options: SignalOptions = {}): Promise<T | null> {
+        return internalMaximum(
+            this.iterable,
+            reverse(compare ?? (defaultCompare as unknown as Comparator<T>)),
+            options
+        );
+    }
+
+    public async minimumBy(
+        select: (element: T, index: number) => number | Promise<number>,
+        options: SignalOptions = {}
+    ): Promise<T | null> {
+        return minimumBy(this.iterable, select, options);
+    }
+
+    public async sort<U extends string | number | boolean>(
+        this: AsyncSeq<U>,
+        compare?: Comparator<U>,
+        options?: SignalOptions
+    ): Promise<U[]>;
+    public async sort(compare: Comparator<T>, options?: SignalOptions): Promise<T[]>;
+    public async sort(compare?: Comparator<T>, options: SignalOptions = {}): Promise<T[]> {
+        const elements = await toArray(this.iterable, options);
+        return elements.sort(compare ?? (defaultCompare as unknown as Comparator<T>));
+    }
+
+    public async sortBy(
+        select: (element: T, index: number) => number | Promise<number>,
+        options: SignalOptions = {}
+    ): Promise<T[]> {
+        return sortBy(this.iterable, select, options);
+    }
+
+    public async largest<U extends string | number | boolean>(
+        this: AsyncSeq<U>,
+        count: number,
+        compare?: Comparator<U>,
+        options?: SignalOptions
+    ): Promise<U[]>;
+    public async largest(
+        count: number,
+        compare: Comparator<T>,
+        options?: SignalOptions
+    ): Promise<T[]>;
+    public async largest(
+        count: number,
+        compare?: Comparator<T>,
+        options: SignalOptions = {}
+    ): Promise<T[]> {
+        return internalLargest(
+            "largest",
+            this.iterable,
+            count,
+            compare ?? (defaultCompare as unknown as Comparator<T>),
+            options
+        );
+    }
+
+    public async smallest<U extends string | number | boolean>(
+        this: AsyncSeq<U>,
+        count: number,
+        compare?: Comparator<U>,
+        options?: SignalOptions
+    ): Promise<U[]>;
+    public async smallest(
+        count: number,
+        compare: Comparator<T>,
+        options?: SignalOptions
+    ): Promise<T[]>;
+    public async smallest(
+        count: number,
+        compare?: Comparator<T>,
+        options: SignalOptions = {}
+    ): Promise<T[]> {
+        return internalLargest(
+            "smallest",
+            this.iterable,
+            count,
+            reverse(compare ?? (defaultCompare as unknown as Comparator<T>)),
+            options
+        );
+    }
+
+    public async sum(this: AsyncSeq<number>, options: SignalOptions = {}): Promise<number> {
+        return sum(this.iterable, options);
+    }
+
+    public async product(this: AsyncSeq<number>, options: SignalOptions = {}): Promise<number> {
+        return product(this.iterable, options);
+    }
+
+    public async average(
+        this: AsyncSeq<number>,
+        options: SignalOptions = {}
+    ): Promise<number | null> {
+        return average(this.iterable, options);
+    }
+
+    public async and(this: AsyncSeq<boolean>, options: SignalOptions = {}): Promise<boolean> {
+        return and(this.iterable, options);
+    }
+
+    public async or(this: AsyncSeq<boolean>, options: SignalOptions = {}): Promise<boolean> {
+        return or(this.iterable, options);
+    }
+
+    public async any(
+        predicate: (element: T, index: number) => boolean | Promise<boolean>,
+        options: SignalOptions = {}
+    ): Promise<boolean> {
+        return any(this.iterable, predicate, options);
+    }
+
+    public async all(
+        predicate: (element: T, index: number) => boolean | Promise<boolean>,
+        options: SignalOptions = {}
+    ): Promise<boolean> {
+        return all(this.iterable, predicate, options);
+    }
+
+    public concat<U>(
+        this: AsyncSeq<AsyncIterableLike<U>>,
+        options: SignalOptions = {}
+    ): AsyncSeq<U> {
+        return new AsyncSeq(concat(this.iterable, options));
+    }
+
+    public prepend(a: AsyncIterableLike<T>, options: SignalOptions = {}): AsyncSeq<T> {
+        return new AsyncSeq(prepend(a, options)(this.iterable));
+    }
+
+    public append(b: AsyncIterableLike<T>, options: SignalOptions = {}): AsyncSeq<T> {
+        return new AsyncSeq(append(b, options)(this.iterable));
+    }
+
+    public concatMap<U>(
+        f: (element: T, index: number) => AsyncIterableLike<U>,
+        options: SignalOptions = {}
+    ): AsyncSeq<U> {
+        return new AsyncSeq(concatMap(this.iterable, f, options));
+    }
+
+    public mergeMap<U>(
+        f: (element: T, index: number) => AsyncIterableLike<U>,
+        options: MergeOptions = {}
+    ): AsyncSeq<U> {
+        return new AsyncSeq(mergeMap(this.iterable, f, options));
+    }
+
+    public merge<U>(this: AsyncSeq<AsyncIterableLike<U>>, options: MergeOptions = {}): AsyncSeq<U> {
+        return new AsyncSeq(merge(this.iterable, options));
+    }
+
+    public race<U>(this: AsyncSeq<AsyncIterableLike<U>>, options: SignalOptions = {}): AsyncSeq<U> {
+        return new AsyncSeq(race(this.iterable, options));
+    }
+
+    public tee(n: number, options: TeeOptions = {}): ReadonlyArray<AsyncSeq<T>> {
+        return tee(this.iterable, n, options).map(iterable => new AsyncSeq(iterable));
+    }
+
+    public share(options: SignalOptions = {}): AsyncSeq<T> {
+        return new AsyncSeq(share(this.iterable, options));
+    }
+
+    public cache(
+        options: CacheOptions = {}
+    ): AsyncSeq<T> & Pick<CachedAsyncIterable<T>, "dispose"> {
+        const cached = cache(this.iterable, options);
+        return Object.assign(new AsyncSeq(cached), {dispose: cached.dispose});
+    }
+
+    public timeout(options: TimeoutOptions): AsyncSeq<T> {
+        return new AsyncSeq(timeout(this.iterable, options));
+    }
+
+    public timeoutWith(fallback: AsyncIterableLike<T>, options: TimeoutOptions): AsyncSeq<T> {
+        return new AsyncSeq(timeoutWith(this.iterable, fallback, options));
+    }
+
+    public catchError<U = T>(
+        handler: (reason: unknown) => AsyncIterableLike<U> | Promise<AsyncIterableLike<U>>,
+        options: SignalOptions = {}
+    ): AsyncSeq<T | U> {
+        return new AsyncSeq(catchError(this.iterable, handler, options));
+    }
+
+    public onErrorResume<U>(
+        this: AsyncSeq<AsyncIterableLike<U>>,
+        options: SignalOptions = {}
+    ): AsyncSeq<U> {
+        return new AsyncSeq(onErrorResume(this.iterable, options));
+    }
+
+    public debounce(ms: number, options: SchedulerOptions = {}): AsyncSeq<T> {
+        return new AsyncSeq(debounce(this.iterable, ms, options));
+    }
+
+    public audit(ms: number, options: SchedulerOptions = {}): AsyncSeq<T> {
+        return new AsyncSeq(audit(this.iterable, ms, options));
+    }
+
+    public throttle(ms: number, options: ThrottleOptions = {}): AsyncSeq<T> {
+        return new AsyncSeq(throttle(this.iterable, ms, options));
+    }
+
+    public sample(ms: number, options: SchedulerOptions = {}): AsyncSeq<T> {
+        return new AsyncSeq(sample(this.iterable, ms, options));
+    }
+
+    public async noneNull<U>(
+        this: AsyncSeq<U | null | undefined>,
+        options: SignalOptions = {}
+    ): Promise<U[] | null> {
+        return noneNull(this.iterable, options);
+    }
+
+    public scan<U>(
+        f: (accumulator: U, element: T, index: number) => U | Promise<U>,
+        initial: U,
+        options: SignalOptions = {}
+    ): AsyncSeq<U> {
+        return new AsyncSeq(scan(this.iterable, f, initial, options));
+    }
+
+    public scan1(
+        f: (accumulator: T, element: T, index: number) => T | Promise<T>,
+        options: SignalOptions = {}
+    ): AsyncSeq<T> {
+        return new AsyncSeq(scan1(this.iterable, f, options));
+    }
+
+    public cycle(options: SignalOptions = {}): AsyncSeq<T> {
+        return new AsyncSeq(cycle(this.iterable, options));
+    }
+
+    public chunk(size: number, options: SignalOptions = {}): AsyncSeq<readonly T[]> {
+        return new AsyncSeq(chunk(this.iterable, size, options));
+    }
+
+    public buffer(options: BufferOptions): AsyncSeq<readonly T[]> {
+        return new AsyncSeq(buffer(this.iterable, options));
+    }
+
+    public bufferTime(ms: number, options: SchedulerOptions = {}): AsyncSeq<readonly T[]> {
+        return new AsyncSeq(bufferTime(this.iterable, ms, options));
+    }
+
+    public pairwise(options: SignalOptions = {}): AsyncSeq<readonly [T, T]> {
+        return new AsyncSeq(pairwise(this.iterable, options));
+    }
+
+    public windowed(size: number, options: WindowedOptions = {}): AsyncSeq<readonly T[]> {
+        return new AsyncSeq(windowed(this.iterable, size, options));
+    }
+
+    public zip<U>(b: AsyncIterableLike<U>, options: SignalOptions = {}): AsyncSeq<readonly [T, U]> {
+        return new AsyncSeq(zip(this.iterable, b, options));
+    }
+
+    public zipStrict<U>(
+        b: AsyncIterableLike<U>,
+        options: SignalOptions = {}
+    ): AsyncSeq<readonly [T, U]> {
+        return new AsyncSeq(zipStrict(this.iterable, b, options));
+    }
+
+    public async keyBy<TKey>(
+        f: (element: T, index: number) => TKey,
+        options: SignalOptions = {}
+    ): Promise<Map<TKey, T[]>> {
+        return keyBy(this.iterable, f, options);
+    }
+
+    public async keyFirstBy<TKey>(
+        f: (element: T, index: number) => TKey,
+        options: SignalOptions = {}
+    ): Promise<Map<TKey, T>> {
+        return keyFirstBy(this.iterable, f, options);
+    }
+
+    public async keyLastBy<TKey>(
+        f: (element: T, index: number) => TKey,
+        options: SignalOptions = {}
+    ): Promise<Map<TKey, T>> {
+        return keyLastBy(this.iterable, f, options);
+    }
+
+    public async mapKeyBy<TKey, TNewElement>(
+        f: (
+            element: T,
+            index: number
+        ) => readonly [TKey, TNewElement] | Promise<readonly [TKey, TNewElement]>,
+        options: SignalOptions = {}
+    ): Promise<Map<TKey, TNewElement[]>> {
+        return mapKeyBy(this.iterable, f, options);
+    }
+
+    public async mapKeyFirstBy<TKey, TNewElement>(
+        f: (
+            element: T,
+            index: number
+        ) => readonly [TKey, TNewElement] | Promise<readonly [TKey, TNewElement]>,
+        options: SignalOptions = {}
+    ): Promise<Map<TKey, TNewElement>> {
+        return mapKeyFirstBy(this.iterable, f, options);
+    }
+
+    public async mapKeyLastBy<TKey, TNewElement>(
+        f: (
+            element: T,
+            index: number
+        ) => readonly [TKey, TNewElement] | Promise<readonly [TKey, TNewElement]>,
+        options: SignalOptions = {}
+    ): Promise<Map<TKey, TNewElement>> {
+        return mapKeyLastBy(this.iterable, f, options);
+    }
+
+    public decodeText(
+        this: AsyncSeq<Uint8Array>,
+        encoding = "utf-8",
+        options: SignalOptions = {}
+    ): AsyncSeq<string> {
+        return new AsyncSeq(decodeText(this.iterable, encoding, options));
+    }
+
+    public splitLines(this: AsyncSeq<string>, options: SplitLinesOptions = {}): AsyncSeq<string> {
+        return new AsyncSeq(splitLines(this.iterable, options));
+    }
+
+    public splitOn(
+        this: AsyncSeq<string>,
+        delimiter: string,
+        options?: SignalOptions
+    ): AsyncSeq<string>;
+    public splitOn(
+        this: AsyncSeq<Uint8Array>,
+        delimiter: Uint8Array,
+        options?: SignalOptions
+    ): AsyncSeq<Uint8Array>;
+    public splitOn(
+        this: AsyncSeq<string> | AsyncSeq<Uint8Array>,
+        delimiter: string | Uint8Array,
+        options: SignalOptions = {}
+    ): AsyncSeq<string> | AsyncSeq<Uint8Array> {
+        return typeof delimiter === "string"
+            ? new AsyncSeq(
+                  splitOnString(this.iterable as AsyncIterableLike<string>, delimiter, options)
+              )
+            : new AsyncSeq(
+                  splitOnBytes(this.iterable as AsyncIterableLike<Uint8Array>, delimiter, options)
+              );
+    }
+
+    public parseNdjson<U = unknown>(
+        this: AsyncSeq<string | Uint8Array>,
+        options: SignalOptions = {}
+    ): AsyncSeq<U> {
+        return new AsyncSeq(parseNdjson<U>(this.iterable, options));
+    }
+
+    public toNdjson(options: SignalOptions = {}): AsyncSeq<string> {
+        return new AsyncSeq(toNdjson(this.iterable, options));
+    }
+
+    public parseJsonArray<U = unknown>(
+        this: AsyncSeq<string | Uint8Array>,
+        options: SignalOptions = {}
+    ): AsyncSeq<U> {
+        return new AsyncSeq(parseJsonArray<U>(this.iterable, options));
+    }
+
+    public parseCsv(
+        this: AsyncSeq<string | Uint8Array>,
+        options: ParseCsvOptions & ({readonly header: true} | {readonly columns: readonly string[]})
+    ): AsyncSeq<CsvRecord>;
+    public parseCsv(
+        this: AsyncSeq<string | Uint8Array>,
+        options?: CsvOptions & {readonly header?: false | undefined; readonly columns?: undefined}
+    ): AsyncSeq<string[]>;
+    public parseCsv(
+        this: AsyncSeq<string | Uint8Array>,
+        options?: ParseCsvOptions
+    ): AsyncSeq<string[] | CsvRecord>;
+    public parseCsv(
+        this: AsyncSeq<string | Uint8Array>,
+        options: ParseCsvOptions = {}
+    ): AsyncSeq<string[] | CsvRecord> {
+        return new AsyncSeq(parseCsv(this.iterable, options));
+    }
+
+    public toCsv(
+        this: AsyncSeq<readonly unknown[] | Readonly<Record<string, unknown>>>,
+        options: ToCsvOptions = {}
+    ): AsyncSeq<string> {
+        return new AsyncSeq(toCsv(this.iterable, options));
+    }
+}
+
+export function seq<T>(iterable: AsyncIterableLike<T>): AsyncSeq<T> {
+    return new AsyncSeq(iterable);
+}
@@ -0,0 +1,110 @@
+import {Readable, Writable} from "node:stream";
+import test from "ava";
+import {fromReadable, pipeToWritable, toReadable} from "./node";
+import {map, take, toArray} from "./index";
+
+async function* counter(state: {pulled: number; closed: boolean}): AsyncIterable<number> {
+    try {
+        while (true) {
+            yield state.pulled++;
+        }
+    } finally {
+        state.closed = true;
+    }
+}
+
+async function delay(ms: number): Promise<void> {
+    return new Promise(resolve => {
+        setTimeout(resolve, ms);
+    });
+}
+
+function collector(chunks: unknown[], fail = false): Writable {
+    return new Writable({
+        objectMode: true,
+        highWaterMark: 1,
+        write: (chunk, encoding, callback) => {
+            chunks.push(chunk);
+            setTimeout(() => {
+                callback(fail ? new Error("collector") : null);
+            }, 1);
+        }
+    });
+}
+
+test("fromReadable", async t => {
+    t.deepEqual(await toArray(fromReadable(Readable.from([1, 2, 3]))), [1, 2, 3]);
+
+    let i = 0;
+    const readable = new Readable({
+        objectMode: true,
+        read() {
+            this.push(i++);
+        }
+    });
+    t.deepEqual(
+        await toArray(
+            take(
+                map(fromReadable<number>(readable), e => e * 2),
+                2
+            )
+        ),
+        [0, 2]
+    );
+    t.true(readable.destroyed);
+
+    const controller = new AbortController();
+    const endless = new Readable({objectMode: true, read: () => undefined});
+    const result = toArray(fromReadable(endless, {signal: controller.signal}));
+    controller.abort();
+    await t.throwsAsync(result, {any: true, name: "AbortError"});
+    t.true(endless.destroyed);
+});
+
+test("toReadable", async t => {
+    const chunks: unknown[] = [];
+    for await (const chunk of toReadable(["a", "b", "c"])) {
+        chunks.push(chunk);
+    }
+    t.deepEqual(chunks, ["a", "b", "c"]);
+
+    let text = "";
+    for await (const chunk of toReadable(["a", "b"], {objectMode: false})) {
+        t.true(Buffer.isBuffer(chunk));
+        text += String(chunk);
+    }
+    t.is(text, "ab");
+
+    const state = {pulled: 0, closed: false};
+    const readable = toReadable(counter(state), {highWaterMark: 2});
+    readable.read(0);
+    await delay(20);
+    t.true(state.pulled >= 2);
+    t.true(state.pulled <= 3);
+    readable.destroy();
+    await delay(20);
+    t.true(state.closed);
+});
+
+test("pipeToWritable", async t => {
+    const chunks: unknown[] = [];
+    await pipeToWritable(
+        map([1, 2, 3, 4], e => e * 10),
+        collector(chunks)
+    );
+    t.deepEqual(chunks, [10, 20, 30, 40]);
+
+    const state = {pulled: 0, closed: false};
+    await t.throwsAsync(pipeToWritable(counter(state), collector([], true)), {
+        message: "collector"
+    });
+    t.true(state.closed);
+
+    async function* failing(): AsyncIterable<number> {
+        yield 1;
+        throw new Error("source");
+    }
+    const writable = collector([]);
+    await t.throwsAsync(pipeToWritable(failing(), writable), {message: "source"});
+    t.true(writable.destroyed);
+});
@@ -0,0 +1,48 @@
+import {Readable} from "node:stream";
+import type {Writable} from "node:stream";
+import {pipeline} from "node:stream/promises";
+import type {AsyncIterableLike, SignalOptions} from "./index";
+import {asyncIterable, withSignal} from "./index";
+
+export async function* fromReadable<T = unknown>(
+    readable: Readable,
+    options: SignalOptions = {}
+): AsyncIterable<T> {
+    const source: AsyncIterable<T> =
+        options.signal == null ? readable : withSignal<T>(readable, options.signal);
+
+    try {
+        for await (const chunk of source) {
+            yield chunk;
+        }
+    } finally {
+        readable.destroy();
+    }
+}
+
+export interface ToReadableOptions extends SignalOptions {
+    readonly objectMode?: boolean | undefined;
+    readonly highWaterMark?: number | undefined;
+}
+
+export function toReadable<T>(
+    iterable: AsyncIterableLike<T>,
+    options: ToReadableOptions = {}
+): Readable {
+    return Readable.from(abortable(iterable, options), {
+        objectMode: options.objectMode ?? true,
+        ...(options.highWaterMark == null ? {} : {highWaterMark: options.highWaterMark})
+    });
+}
+
+export async function pipeToWritable<T>(
+    iterable: AsyncIterableLike<T>,
+    writable: Writable,
+    options: SignalOptions = {}
+): Promise<void> {
+    return pipeline(abortable(iterable, options), writable);
+}
+
+function abortable<T>(iterable: AsyncIterableLike<T>, options: SignalOptions): AsyncIterable<T> {
+    return options.signal == null ? asyncIterable(iterable) : withSignal(iterable, options.signal);
+}
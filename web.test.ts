@@ -0,0 +1,69 @@
+import {ReadableStream} from "node:stream/web";
+import test from "ava";
+import {toReadableStream, toTransformStream} from "./web";
+import {asyncIterator, chunkFn, filterFn, map, mapFn, pipe, take, toArray} from "./index";
+
+function streamOf<T>(values: readonly T[]): ReadableStream<T> {
+    let index = 0;
+    return new ReadableStream<T>({
+        pull: controller => {
+            if (index < values.length) {
+                controller.enqueue(values[index++]);
+            } else {
+                controller.close();
+            }
+        }
+    });
+}
+
+test("ReadableStream as AsyncIterableLike", async t => {
+    t.deepEqual(await toArray(map(streamOf([1, 2, 3]), e => e * 2)), [2, 4, 6]);
+
+    const stream = streamOf([1, 2, 3, 4]);
+    t.deepEqual(await toArray(take(stream, 2)), [1, 2]);
+    t.false(stream.locked);
+});
+
+test("toReadableStream", async t => {
+    const reader = toReadableStream([1, 2, 3]).getReader();
+    t.deepEqual(await reader.read(), {done: false, value: 1});
+    t.deepEqual(await reader.read(), {done: false, value: 2});
+    t.deepEqual(await reader.read(), {done: false, value: 3});
+    t.deepEqual(await reader.read(), {done: true, value: undefined});
+
+    let closed = false;
+    async function* source(): AsyncIterable<number> {
+        try {
+            for (let i = 0; ; ++i) {
+                yield i;
+            }
+        } finally {
+            closed = true;
+        }
+    }
+    const stream = toReadableStream(source());
+    const iterator = asyncIterator(stream);
+    t.deepEqual(await iterator.next(), {done: false, value: 0});
+    await iterator.return?.();
+    t.true(closed);
+});
+
+test("toTransformStream", async t => {
+    const doubled = toReadableStream(streamOf([1, 2, 3, 4, 5]))
+        .pipeThrough(toTransformStream(mapFn((e: number) => e * 2)))
+        .pipeThrough(toTransformStream(filterFn(e => e > 2)))
+        .pipeThrough(toTransformStream(chunkFn(2)));
+    t.deepEqual(await toArray(doubled), [
+        [4, 6],
+        [8, 10]
+    ]);
+
+    t.deepEqual(
+        await pipe(
+            toReadableStream(["a", "b"]),
+            stream => stream.pipeThrough(toTransformStream(mapFn(e => e.toUpperCase()))),
+            toArray
+        ),
+        ["A", "B"]
+    );
+});
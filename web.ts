@@ -0,0 +1,94 @@
+import type {AsyncIterableLike, ReadableStreamLike, SignalOptions} from "./index";
+import {asyncIterable, asyncIterator, withSignal} from "./index";
+
+export interface WebReadableStream<T> extends ReadableStreamLike<T> {
+    readonly locked: boolean;
+    readonly cancel: (reason?: unknown) => Promise<void>;
+    readonly pipeThrough: <U>(
+        transform: WebReadableWritablePair<U, T>,
+        options?: WebPipeOptions
+    ) => WebReadableStream<U>;
+    readonly pipeTo: (destination: WebWritableStream<T>, options?: WebPipeOptions) => Promise<void>;
+}
+
+export interface WebWritableStream<T> {
+    readonly locked: boolean;
+    readonly getWriter: () => WebWritableStreamWriter<T>;
+    readonly abort: (reason?: unknown) => Promise<void>;
+    readonly close: () => Promise<void>;
+}
+
+export interface WebWritableStreamWriter<T> {
+    readonly write: (chunk: T) => Promise<void>;
+    readonly close: () => Promise<void>;
+    readonly abort: (reason?: unknown) => Promise<void>;
+    readonly releaseLock: () => void;
+}
+
+export interface WebReadableWritablePair<R, W> {
+    readonly readable: WebReadableStream<R>;
+    readonly writable: WebWritableStream<W>;
+}
+
+export interface WebPipeOptions {
+    readonly preventAbort?: boolean | undefined;
+    readonly preventCancel?: boolean | undefined;
+    readonly preventClose?: boolean | undefined;
+    readonly signal?: AbortSignal | undefined;
+}
+
+interface ReadableStreamControllerLike<T> {
+    readonly close: () => void;
+    readonly enqueue: (chunk: T) => void;
+}
+
+interface UnderlyingSourceLike<T> {
+    readonly pull: (controller: ReadableStreamControllerLike<T>) => Promise<void>;
+    readonly cancel: () => Promise<void>;
+}
+
+const streams = globalThis as unknown as {
+    readonly ReadableStream: new <T>(
+        source: UnderlyingSourceLike<T>,
+        strategy?: {readonly highWaterMark: number}
+    ) => WebReadableStream<T>;
+    readonly TransformStream: new <T>() => WebReadableWritablePair<T, T>;
+};
+
+export interface ToReadableStreamOptions extends SignalOptions {
+    readonly highWaterMark?: number | undefined;
+}
+
+export function toReadableStream<T>(
+    iterable: AsyncIterableLike<T>,
+    options: ToReadableStreamOptions = {}
+): WebReadableStream<T> {
+    const iterator = asyncIterator(
+        options.signal == null ? iterable : withSignal(iterable, options.signal)
+    );
+
+    return new streams.ReadableStream<T>(
+        {
+            pull: async controller => {
+                const element = await iterator.next();
+                if (element.done === true) {
+                    controller.close();
+                } else {
+                    controller.enqueue(element.value);
+                }
+            },
+            cancel: async () => {
+                await iterator.return?.();
+            }
+        },
+        options.highWaterMark == null ? undefined : {highWaterMark: options.highWaterMark}
+    );
+}
+
+export function toTransformStream<T, U>(
+    f: (iterable: AsyncIterable<T>) => AsyncIterableLike<U>,
+    options: ToReadableStreamOptions = {}
+): WebReadableWritablePair<U, T> {
+    const {readable, writable} = new streams.TransformStream<T>();
+    return {writable, readable: toReadableStream(f(asyncIterable(readable)), options)};
+}